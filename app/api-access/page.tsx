@@ -1,13 +1,61 @@
 "use client";
 
-import { Alert, Badge, Button, Card, Divider, List, Space, Switch, Tag, Typography } from "antd";
+import { Alert, Badge, Button, Card, Divider, Input, List, Space, Switch, Tag, Typography } from "antd";
 import { useEffect, useRef, useState, useCallback } from "react";
-import { generateWithWebLLM, ensureWebLLMModelLoaded, isModelLoaded } from "@/lib/browser/webllm-engine";
+import {
+    cleanupEmbeddingEngine,
+    cleanupEngine,
+    embedWithWebLLM,
+    ensureWebLLMEmbeddingModelLoaded,
+    ensureWebLLMModelLoaded,
+    generateStreamWithWebLLM,
+    getActiveEmbeddingModelId,
+    getActiveModelId,
+    getWebLLMModels,
+    getWebLLMRuntimeStats,
+    isEmbeddingModel,
+    isModelLoaded,
+    parseToolCalls,
+    resolveTools,
+    WebLLMRequestError,
+    type WebLLMFinish,
+    type WebLLMUsage,
+} from "@/lib/browser/webllm-engine";
+import {
+    getCompatibilityState,
+    getDownloadedModels,
+    getLoadedEmbeddingModelId,
+    getLoadedModelId,
+    markModelDownloaded,
+    setLoadedEmbeddingModelId,
+    setLoadedModelId,
+    STORAGE_KEYS,
+    type CompatibilityState,
+} from "@/lib/browser/model-setup";
+import { getEmbeddingInputs, isEmbeddingRequest } from "@/lib/api/embeddings";
+import { getRequestMessages } from "@/lib/api/generation";
 import { useLLMSetup } from "@/hooks/use-llm-setup";
 import { CheckCircleOutlined, SyncOutlined, BugOutlined } from "@ant-design/icons";
+import type { DispatchedJob, ModelCommand, WorkerAck, WorkerMessage, WorkerUpstreamMessage } from "@/lib/api/queue";
+import type { WorkerTelemetry } from "@/types/api";
 
 const { Text, Title, Paragraph } = Typography;
 
+// Renew well inside the server's lease window so a slow request doesn't lose the job
+const LEASE_RENEW_INTERVAL_MS = 5000;
+// Streamed tokens are batched so a fast model doesn't send one request per token
+const CHUNK_FLUSH_INTERVAL_MS = 100;
+// Server holds a long-poll for at most 30s
+const LONG_POLL_WAIT_S = 25;
+const LONG_POLL_MAX_FAILURES = 3;
+const POLL_INTERVAL_MS = 1000;
+// Well inside the server's 15s heartbeat timeout
+const TELEMETRY_INTERVAL_MS = 10000;
+// Download progress is reported in steps of this many percent
+const MODEL_PROGRESS_STEP = 5;
+
+type Transport = "long-poll" | "polling";
+
 interface LogEntry {
     id: string;
     timestamp: number;
@@ -21,7 +69,37 @@ export default function ApiAccessPage() {
     const [status, setStatus] = useState<"idle" | "listening" | "processing">("idle");
     const [logs, setLogs] = useState<LogEntry[]>([]);
     const { loadedModelId } = useLLMSetup();
-    const pollTimerRef = useRef<NodeJS.Timeout | null>(null);
+    const [transport, setTransport] = useState<Transport>("long-poll");
+    // Server-issued identity, so several tabs or machines can serve one queue
+    const workerIdRef = useRef<string | null>(null);
+    // One controller per running job, so a cancel message can interrupt it
+    const jobControllersRef = useRef<Map<string, AbortController>>(new Map());
+    // Worker-scoped API key; the server only hands jobs to callers holding one
+    const [apiKey, setApiKey] = useState("");
+    const apiKeyRef = useRef("");
+    // Storage estimates only change with downloads, so they're read on start
+    // and after model commands rather than on every heartbeat
+    const compatibilityRef = useRef<CompatibilityState | null>(null);
+
+    useEffect(() => {
+        const saved = window.localStorage.getItem(STORAGE_KEYS.workerApiKey) ?? "";
+        apiKeyRef.current = saved;
+        setApiKey(saved);
+    }, []);
+
+    const updateApiKey = useCallback((value: string) => {
+        apiKeyRef.current = value.trim();
+        setApiKey(value);
+        window.localStorage.setItem(STORAGE_KEYS.workerApiKey, value.trim());
+    }, []);
+
+    const workerFetch = useCallback((url: string, init: RequestInit = {}) => {
+        const headers = new Headers(init.headers);
+        if (apiKeyRef.current) {
+            headers.set("Authorization", `Bearer ${apiKeyRef.current}`);
+        }
+        return fetch(url, { ...init, headers });
+    }, []);
 
     const addLog = useCallback((message: string, type: "info" | "success" | "error" = "info", details?: any) => {
         setLogs((prev) => [
@@ -36,71 +114,337 @@ export default function ApiAccessPage() {
         ]);
     }, []);
 
-    const processJob = useCallback(async (job: any) => {
+    const sendMessages = useCallback(async (messages: WorkerUpstreamMessage[]): Promise<WorkerAck[] | null> => {
+        const workerId = workerIdRef.current;
+        if (!workerId) return null;
+
+        try {
+            const res = await workerFetch("/api/v1/worker/poll", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ worker_id: workerId, messages }),
+            });
+            if (!res.ok) return null;
+
+            const data = await res.json();
+            return data.data.acks as WorkerAck[];
+        } catch {
+            return null;
+        }
+    }, [workerFetch]);
+
+    const sendTelemetry = useCallback(async (refreshCompatibility = false) => {
+        if (refreshCompatibility || !compatibilityRef.current) {
+            compatibilityRef.current = await getCompatibilityState();
+        }
+        await sendMessages([{ type: "heartbeat", telemetry: toTelemetry(compatibilityRef.current) }]);
+    }, [sendMessages]);
+
+    const processJob = useCallback(async (job: DispatchedJob) => {
         setStatus("processing");
         addLog(`Processing job ${job.id}`, "info", job.request);
 
+        const controller = new AbortController();
+        jobControllersRef.current.set(job.id, controller);
+
+        // The server has given the job to another worker, so stop generating
+        // and don't report a result for it
+        let leaseLost = false;
+        const onAcks = (acks: WorkerAck[] | null) => {
+            if (leaseLost || !acks?.some((ack) => ack.outcome === "lease_lost")) return;
+            leaseLost = true;
+            clearInterval(leaseTimer);
+            controller.abort();
+            addLog(`Lost lease on job ${job.id}, stopping it`, "error");
+        };
+
+        const leaseTimer = setInterval(async () => {
+            onAcks(await sendMessages([{ type: "renew", id: job.id }]));
+        }, LEASE_RENEW_INTERVAL_MS);
+        // Output so far, reported with the error if generation fails
+        let response = "";
+
+        const request = job.request;
+        const embedding = isEmbeddingRequest(request);
+        // With tools the model writes a JSON list of calls, which is only
+        // reported once it is complete
+        const usesTools = !embedding && resolveTools(request.tools, request.tool_choice) !== undefined;
+        const uploader = !embedding && request.stream && !usesTools
+            ? createChunkUploader(async (delta) => {
+                onAcks(await sendMessages([{ type: "chunk", id: job.id, delta }]));
+            })
+            : null;
+
         try {
-            const response = await generateWithWebLLM(job.request.prompt, {
-                maxTokens: job.request.max_tokens,
-                temperature: job.request.temperature,
-            });
+            if (embedding) {
+                const modelId = await resolveEmbeddingModel(request.model);
+                await ensureWebLLMEmbeddingModelLoaded(modelId);
+                const result = await embedWithWebLLM(getEmbeddingInputs(request));
+                if (leaseLost) return;
+
+                const res = await workerFetch("/api/v1/worker/result", {
+                    method: "POST",
+                    headers: { "Content-Type": "application/json" },
+                    body: JSON.stringify({ id: job.id, worker_id: workerIdRef.current, result }),
+                });
+
+                if (res.status === 409) {
+                    addLog(`Job ${job.id} result discarded: lease was reassigned`, "error");
+                } else {
+                    addLog(`Job ${job.id} embedded ${result.embeddings.length} inputs with ${modelId}`, "success");
+                }
+                return;
+            }
+
+            const chatModelId = await resolveChatModel(request.model);
+            if (chatModelId && !isModelLoaded(chatModelId)) {
+                addLog(`Loading model ${chatModelId} for job ${job.id}...`, "info");
+                await ensureWebLLMModelLoaded(chatModelId);
+            }
+
+            const messages = getRequestMessages(request);
+            const outcome: { finish?: WebLLMFinish } = {};
+            for await (const chunk of generateStreamWithWebLLM(messages, {
+                maxTokens: request.max_tokens,
+                temperature: request.temperature,
+                topP: request.top_p,
+                frequencyPenalty: request.frequency_penalty,
+                presencePenalty: request.presence_penalty,
+                stop: request.stop,
+                seed: request.seed,
+                logitBias: request.logit_bias,
+                jsonMode: request.json_mode,
+                jsonSchema: request.json_schema,
+                tools: request.tools,
+                toolChoice: request.tool_choice,
+                signal: controller.signal,
+                onFinish: (finish) => {
+                    outcome.finish = finish;
+                },
+            })) {
+                // Keep reading after a cancel: the interrupted stream still
+                // ends with the usage of what was generated
+                if (controller.signal.aborted) continue;
+                response += chunk;
+                uploader?.push(chunk);
+            }
+
+            // All chunks must land before the result closes the stream
+            await uploader?.flush();
+            if (leaseLost) {
+                addLog(`Job ${job.id} stopped after ${response.length} characters: lease was reassigned`, "info");
+                return;
+            }
+            const cancelled = controller.signal.aborted;
+            const toolCalls = usesTools && !cancelled ? parseToolCalls(response) : null;
+            const finish = outcome.finish ?? { reason: cancelled ? "cancelled" : "stop", usage: null };
 
             // Send result back
-            await fetch("/api/v1/worker/result", {
+            const res = await workerFetch("/api/v1/worker/result", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
                     id: job.id,
+                    worker_id: workerIdRef.current,
+                    cancelled,
                     result: {
-                        text: response,
-                        usage: {
-                            // Approximate usage
-                            prompt_tokens: job.request.prompt.length / 4,
-                            completion_tokens: response.length / 4,
-                            total_tokens: (job.request.prompt.length + response.length) / 4
-                        }
+                        text: toolCalls ? "" : response,
+                        ...(toolCalls ? { tool_calls: toolCalls } : {}),
+                        finish_reason: finish.reason,
+                        ...(finish.stopSequence !== undefined ? { stop_sequence: finish.stopSequence } : {}),
+                        ...(finish.usage ? toResultUsage(finish.usage) : {}),
                     },
                 }),
             });
 
-            addLog(`Job ${job.id} completed`, "success");
+            if (res.status === 409) {
+                addLog(`Job ${job.id} result discarded: lease was reassigned`, "error");
+            } else if (cancelled) {
+                addLog(`Job ${job.id} cancelled after ${response.length} characters`, "info");
+            } else {
+                addLog(`Job ${job.id} completed`, "success");
+            }
         } catch (error) {
             console.error("Job processing failed", error);
-            addLog(`Job ${job.id} failed`, "error", error);
+            if (leaseLost) return;
+
+            const rejected = error instanceof WebLLMRequestError;
+            addLog(rejected ? `Job ${job.id} rejected: ${(error as Error).message}` : `Job ${job.id} failed`, "error", error);
 
             // Report error
-            await fetch("/api/v1/worker/result", {
+            await workerFetch("/api/v1/worker/result", {
                 method: "POST",
                 headers: { "Content-Type": "application/json" },
                 body: JSON.stringify({
                     id: job.id,
+                    worker_id: workerIdRef.current,
                     error: error instanceof Error ? error.message : "Processing failed",
+                    rejected,
+                    ...(response ? { result: { text: response, finish_reason: "error" } } : {}),
                 }),
             });
         } finally {
+            jobControllersRef.current.delete(job.id);
+            uploader?.stop();
+            clearInterval(leaseTimer);
             setStatus("listening");
         }
-    }, [addLog]);
+    }, [addLog, sendMessages, workerFetch]);
+
+    /**
+     * Runs a model command from the server. The server holds back jobs
+     * until the result is in, so nothing is generating meanwhile.
+     */
+    const runModelCommand = useCallback(async (command: ModelCommand) => {
+        setStatus("processing");
+        addLog(`Server asked to ${command.action} model ${command.model_id}`, "info");
+
+        let reported = 0;
+        const onProgress = (progress: number) => {
+            if (progress < 100 && progress - reported < MODEL_PROGRESS_STEP) return;
+            reported = progress;
+            void sendMessages([{ type: "model_progress", id: command.id, progress }]);
+        };
 
-    const poll = useCallback(async () => {
+        let error: string | undefined;
         try {
-            const res = await fetch("/api/v1/worker/poll");
-            if (!res.ok) return;
+            await applyModelCommand(command, onProgress);
+            addLog(`Model ${command.model_id}: ${command.action} finished`, "success");
+        } catch (cause) {
+            console.error("Model command failed", cause);
+            error = cause instanceof Error ? cause.message : "Model command failed";
+            addLog(`Model ${command.model_id}: ${command.action} failed`, "error", cause);
+        }
 
-            const data = await res.json();
-            if (data.data?.job) {
-                await processJob(data.data.job);
+        await sendMessages([{
+            type: "model_result",
+            id: command.id,
+            ...(error ? { error } : {}),
+            model: getActiveModelId(),
+            models: Object.keys(getDownloadedModels()),
+        }]);
+        void sendTelemetry(true);
+        setStatus("listening");
+    }, [addLog, sendMessages, sendTelemetry]);
+
+    const handleMessage = useCallback((message: WorkerMessage) => {
+        if (message.type === "model") {
+            void runModelCommand(message.command);
+        } else if (message.type === "job") {
+            // Not awaited: the channel must stay open to hear about cancellations
+            void processJob(message.job);
+        } else if (message.type === "cancel") {
+            const controller = jobControllersRef.current.get(message.id);
+            if (controller) {
+                addLog(`Stopping job ${message.id}: cancelled by the server`, "info");
+                controller.abort();
+            }
+        }
+    }, [processJob, runModelCommand, addLog]);
+
+    const connectWorker = useCallback(async (): Promise<string> => {
+        const res = await workerFetch("/api/v1/worker/connect", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+                ...(workerIdRef.current ? { worker_id: workerIdRef.current } : {}),
+                model: getActiveModelId(),
+                models: Object.keys(getDownloadedModels()),
+            }),
+        });
+        // The old ID still belongs to the key used before; register a new one
+        if (res.status === 403 && workerIdRef.current) {
+            workerIdRef.current = null;
+            return connectWorker();
+        }
+        const data = await res.json();
+        if (!data.success) {
+            throw new Error(data.error?.message ?? "Failed to connect");
+        }
+        workerIdRef.current = data.data.worker_id;
+        return data.data.worker_id as string;
+    }, [workerFetch]);
+
+    const disconnectWorker = useCallback((keepalive = false) => {
+        const workerId = workerIdRef.current;
+        if (!workerId) return;
+
+        // Fire and forget disconnect
+        workerFetch("/api/v1/worker/disconnect", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ worker_id: workerId }),
+            keepalive,
+        }).catch(() => { });
+    }, [workerFetch]);
+
+    /**
+     * Keeps one poll open at a time until aborted. Starts with long-polling
+     * and falls back to interval polling when long requests keep failing
+     * (e.g. a proxy that cuts idle connections).
+     */
+    const runPollLoop = useCallback(async (signal: AbortSignal) => {
+        let mode: Transport = "long-poll";
+        let failures = 0;
+        setTransport(mode);
+
+        while (!signal.aborted) {
+            const workerId = workerIdRef.current;
+            if (!workerId) break;
+
+            const wait = mode === "long-poll" ? LONG_POLL_WAIT_S : 0;
+
+            try {
+                const res = await workerFetch(`/api/v1/worker/poll?worker_id=${encodeURIComponent(workerId)}&wait=${wait}`, { signal });
+                if (res.status === 401 || res.status === 403) {
+                    addLog("Server rejected the worker API key", "error");
+                    setIsEnabled(false);
+                    break;
+                }
+                if (res.status === 404) {
+                    // Server forgot us (restart or missed heartbeats), register again
+                    await connectWorker();
+                    addLog("Worker re-registered with server", "info");
+                    continue;
+                }
+                if (!res.ok) {
+                    throw new Error(`Poll failed with status ${res.status}`);
+                }
+
+                const data = await res.json();
+                failures = 0;
+                for (const message of data.data.messages as WorkerMessage[]) {
+                    handleMessage(message);
+                }
+            } catch {
+                if (signal.aborted) break;
+
+                failures += 1;
+                if (mode === "long-poll" && failures >= LONG_POLL_MAX_FAILURES) {
+                    mode = "polling";
+                    setTransport(mode);
+                    addLog("Long-poll keeps failing, falling back to interval polling", "error");
+                }
+            }
+
+            if (mode === "polling" || failures > 0) {
+                await sleep(POLL_INTERVAL_MS);
             }
-        } catch (e) {
-            // Ignore poll errors, just retry
         }
-    }, [processJob]);
+    }, [connectWorker, handleMessage, addLog, workerFetch]);
+
+    // Only whether a model is configured restarts the worker; switching
+    // models, e.g. by a server command, keeps the connection and its queue
+    const hasModel = Boolean(loadedModelId);
 
     useEffect(() => {
         let mounted = true;
+        const pollController = new AbortController();
+        const jobControllers = jobControllersRef.current;
+        let telemetryTimer: ReturnType<typeof setInterval> | null = null;
 
         const startWorker = async () => {
+            const loadedModelId = getLoadedModelId();
             if (isEnabled && loadedModelId) {
                 // Ensure model is actually loaded in memory
                 if (!isModelLoaded(loadedModelId)) {
@@ -123,31 +467,29 @@ export default function ApiAccessPage() {
 
                 // Explicitly connect to the server
                 try {
-                    await fetch("/api/v1/worker/connect", { method: "POST" });
-                    addLog("Worker connected to server", "success");
+                    const workerId = await connectWorker();
+                    if (!mounted) return;
+                    addLog(`Worker ${workerId} connected to server`, "success");
                 } catch (e) {
                     console.error("Failed to connect:", e);
-                    addLog("Failed to connect to server", "error");
+                    addLog(`Failed to connect to server: ${e instanceof Error ? e.message : "unknown error"}`, "error");
                     setIsEnabled(false);
                     setStatus("idle");
                     return;
                 }
 
                 setStatus("listening");
-                pollTimerRef.current = setInterval(poll, 1000); // Poll every 1s
                 addLog("Worker started listening for requests", "info");
+                void runPollLoop(pollController.signal);
+
+                void sendTelemetry(true);
+                telemetryTimer = setInterval(() => void sendTelemetry(), TELEMETRY_INTERVAL_MS);
             } else {
                 setStatus("idle");
-                if (pollTimerRef.current) {
-                    clearInterval(pollTimerRef.current);
-                    pollTimerRef.current = null;
-                }
 
                 // If we were enabled and now disabled (or unmounting), tell server to stop
-                // We track this by checking if we just stopped polling
                 if (!isEnabled) {
-                    // Fire and forget disconnect
-                    fetch("/api/v1/worker/disconnect", { method: "POST" }).catch(() => { });
+                    disconnectWorker();
                     addLog("Worker stopped", "info");
                 }
 
@@ -162,15 +504,18 @@ export default function ApiAccessPage() {
 
         return () => {
             mounted = false;
-            if (pollTimerRef.current) {
-                clearInterval(pollTimerRef.current);
+            pollController.abort();
+            if (telemetryTimer) {
+                clearInterval(telemetryTimer);
             }
+            // The server re-queues our jobs on disconnect, so stop working on them
+            jobControllers.forEach((controller) => controller.abort());
             // Attempt to disconnect on unmount if enabled
             if (isEnabled) {
-                fetch("/api/v1/worker/disconnect", { method: "POST", keepalive: true }).catch(() => { });
+                disconnectWorker(true);
             }
         };
-    }, [isEnabled, loadedModelId, poll, addLog]);
+    }, [isEnabled, hasModel, runPollLoop, addLog, connectWorker, disconnectWorker, sendTelemetry]);
 
     return (
         <div style={{ padding: 24, maxWidth: 1000, margin: "0 auto" }}>
@@ -197,6 +542,7 @@ export default function ApiAccessPage() {
                         </Space>
 
                         <Space>
+                            {isEnabled && <Tag>{transport === "long-poll" ? "Long-poll" : "Polling"}</Tag>}
                             <Badge status={status === "processing" ? "processing" : status === "listening" ? "success" : "default"} />
                             <Text type="secondary" style={{ textTransform: 'uppercase', fontSize: 12, fontWeight: 600 }}>
                                 {status}
@@ -204,6 +550,15 @@ export default function ApiAccessPage() {
                         </Space>
                     </Space>
 
+                    <Input.Password
+                        addonBefore="Worker API key"
+                        placeholder="tvm_... (needs the worker scope)"
+                        value={apiKey}
+                        onChange={(event) => updateApiKey(event.target.value)}
+                        disabled={isEnabled}
+                        style={{ marginTop: 16 }}
+                    />
+
                     {!loadedModelId && (
                         <Alert
                             type="warning"
@@ -223,6 +578,7 @@ export default function ApiAccessPage() {
                                 <Space orientation="vertical" size={8}>
                                     <Text>Send POST requests to:</Text>
                                     <Text code copyable>http://localhost:3000/api/v1/generate</Text>
+                                    <Text type="secondary" style={{ fontSize: 12 }}>Header: Authorization: Bearer &lt;key with the generate scope&gt;</Text>
                                     <Text type="secondary" style={{ fontSize: 12 }}>Body: {"{ \"prompt\": \"Hello\" }"}</Text>
                                 </Space>
                             }
@@ -267,3 +623,156 @@ export default function ApiAccessPage() {
         </div>
     );
 }
+
+/**
+ * Buffers streamed chunks and uploads them in order, one request at a time
+ */
+function createChunkUploader(send: (delta: string) => Promise<void>) {
+    let buffer = "";
+    let inFlight: Promise<void> = Promise.resolve();
+
+    const flush = () => {
+        if (buffer) {
+            const delta = buffer;
+            buffer = "";
+            // A lost chunk still leaves the full text in the final result
+            inFlight = inFlight.then(() => send(delta)).catch(() => { });
+        }
+        return inFlight;
+    };
+
+    const timer = setInterval(flush, CHUNK_FLUSH_INTERVAL_MS);
+
+    return {
+        push(text: string) {
+            buffer += text;
+        },
+        flush,
+        stop() {
+            clearInterval(timer);
+        },
+    };
+}
+
+/**
+ * This tab's device, models and engine stats, as sent with heartbeats
+ */
+function toTelemetry(compatibility: CompatibilityState): WorkerTelemetry {
+    return {
+        compatibility: {
+            webgpu_available: compatibility.webgpuAvailable,
+            storage_available: compatibility.storageAvailable,
+            persistent_storage: compatibility.persistentStorage,
+            storage_quota_gb: compatibility.quotaGB,
+            storage_used_gb: compatibility.usageGB,
+            device_memory_gb: compatibility.deviceMemoryGB,
+            estimated_vram_gb: compatibility.estimatedVramGB,
+        },
+        model: getActiveModelId(),
+        embedding_model: getActiveEmbeddingModelId(),
+        runtime: getWebLLMRuntimeStats(),
+    };
+}
+
+/**
+ * The engine's usage in the shape the server passes through: token counts
+ * under usage, timings under performance
+ */
+function toResultUsage(usage: WebLLMUsage) {
+    return {
+        usage: {
+            prompt_tokens: usage.prompt_tokens,
+            completion_tokens: usage.completion_tokens,
+            total_tokens: usage.total_tokens,
+        },
+        performance: {
+            time_to_first_token_ms: usage.time_to_first_token_ms,
+            tokens_per_second: usage.decode_tokens_per_second,
+        },
+    };
+}
+
+/**
+ * Picks the chat model for a job: the one it names, which must be
+ * downloaded here, or else the one in memory. After a remote unload
+ * that is the one loaded in Configuration.
+ */
+async function resolveChatModel(requested?: string): Promise<string | null> {
+    if (!requested) {
+        return getActiveModelId() ?? getLoadedModelId();
+    }
+    if (!getDownloadedModels()[requested]) {
+        throw new WebLLMRequestError(`Model ${requested} is not downloaded on this worker`);
+    }
+
+    const entry = (await getWebLLMModels()).find((model) => model.id === requested);
+    if (!entry || isEmbeddingModel(entry)) {
+        throw new WebLLMRequestError(`${requested} is not a chat model`);
+    }
+    return requested;
+}
+
+/**
+ * Picks the embedding model for a job: the one it names, or else the one
+ * loaded for embeddings in Configuration. Either must be downloaded here.
+ */
+async function resolveEmbeddingModel(requested?: string): Promise<string> {
+    const modelId = requested ?? getLoadedEmbeddingModelId();
+    if (!modelId) {
+        throw new WebLLMRequestError("No embedding model is loaded on this worker; name one with model");
+    }
+    if (!getDownloadedModels()[modelId]) {
+        throw new WebLLMRequestError(`Embedding model ${modelId} is not downloaded on this worker`);
+    }
+
+    const entry = (await getWebLLMModels()).find((model) => model.id === modelId);
+    if (!entry || !isEmbeddingModel(entry)) {
+        throw new WebLLMRequestError(`${modelId} is not an embedding model`);
+    }
+    return modelId;
+}
+
+/**
+ * Loads, unloads or downloads a model in this tab. A download leaves
+ * whichever model was serving before in memory.
+ */
+async function applyModelCommand({ action, model_id: modelId }: ModelCommand, onProgress: (progress: number) => void) {
+    const entry = (await getWebLLMModels()).find((model) => model.id === modelId);
+    if (!entry) {
+        throw new Error(`${modelId} is not a WebLLM model`);
+    }
+
+    const embedding = isEmbeddingModel(entry);
+    const active = embedding ? getActiveEmbeddingModelId() : getActiveModelId();
+    const unload = embedding ? cleanupEmbeddingEngine : cleanupEngine;
+    const ensureLoaded = embedding ? ensureWebLLMEmbeddingModelLoaded : ensureWebLLMModelLoaded;
+
+    if (action === "unload") {
+        if (active !== modelId) {
+            throw new Error(`${modelId} is not loaded`);
+        }
+        await unload();
+        return;
+    }
+
+    await ensureLoaded(modelId, onProgress);
+    markModelDownloaded(modelId, { sourceUri: entry.source?.model_uri });
+
+    if (action === "load") {
+        if (embedding) {
+            setLoadedEmbeddingModelId(modelId);
+        } else {
+            setLoadedModelId(modelId);
+        }
+    } else if (active !== modelId) {
+        if (active) {
+            await ensureLoaded(active);
+        } else {
+            await unload();
+        }
+    }
+}
+
+function sleep(ms: number) {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,532 @@
+"use client";
+
+import { ApiOutlined, KeyOutlined, LinkOutlined, SendOutlined, StopOutlined } from "@ant-design/icons";
+import { Alert, Button, Card, Collapse, Empty, Input, Space, Spin, Tag, Typography } from "antd";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { JsonSchema } from "@/lib/api/json-schema";
+import styles from "./api-reference.module.css";
+
+const { Text, Title, Paragraph } = Typography;
+
+const OPENAPI_URL = "/api/v1/openapi.json";
+// Deeper than any schema in the spec; stops runaway recursion
+const MAX_SCHEMA_DEPTH = 8;
+
+const METHOD_COLORS: Record<string, string> = {
+  get: "blue",
+  post: "green",
+  delete: "red",
+};
+
+interface OpenAPIParameter {
+  name: string;
+  in: "path" | "query";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+interface OpenAPIMediaType {
+  schema: JsonSchema;
+  example?: unknown;
+}
+
+interface OpenAPIOperation {
+  tags: string[];
+  summary: string;
+  description?: string;
+  operationId: string;
+  security: Array<Record<string, string[]>>;
+  parameters?: OpenAPIParameter[];
+  requestBody?: { content: Record<string, OpenAPIMediaType> };
+  responses: Record<string, { description: string; content?: Record<string, OpenAPIMediaType> }>;
+}
+
+interface OpenAPIDocument {
+  info: { title: string; version: string; description?: string };
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenAPIOperation>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+interface OperationEntry {
+  method: string;
+  path: string;
+  operation: OpenAPIOperation;
+}
+
+interface TryResult {
+  status: number;
+  durationMs: number;
+  body: string;
+}
+
+// ============================================================================
+// Schema helpers
+// ============================================================================
+
+function getRefName(schema: JsonSchema): string | null {
+  return typeof schema.$ref === "string" ? schema.$ref.slice(schema.$ref.lastIndexOf("/") + 1) : null;
+}
+
+function resolveSchema(schema: JsonSchema, spec: OpenAPIDocument): JsonSchema {
+  const name = getRefName(schema);
+  return name ? spec.components.schemas[name] ?? {} : schema;
+}
+
+function getOptions(schema: JsonSchema): JsonSchema[] {
+  return (schema.anyOf ?? schema.oneOf ?? []) as JsonSchema[];
+}
+
+function describeType(schema: JsonSchema, spec: OpenAPIDocument, depth = 0): string {
+  const name = getRefName(schema);
+  if (name) return name;
+  if (depth > MAX_SCHEMA_DEPTH) return "…";
+
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (Array.isArray(schema.enum)) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+
+  const options = getOptions(schema);
+  if (options.length > 0) return options.map((option) => describeType(option, spec, depth + 1)).join(" | ");
+
+  const types = Array.isArray(schema.type) ? schema.type : [schema.type ?? "any"];
+  return types
+    .map((type) => {
+      if (type === "array" && schema.items) return `${describeType(schema.items as JsonSchema, spec, depth + 1)}[]`;
+      if (type === "object" && schema.additionalProperties && !schema.properties) {
+        return `Record<string, ${describeType(schema.additionalProperties as JsonSchema, spec, depth + 1)}>`;
+      }
+      return String(type);
+    })
+    .join(" | ");
+}
+
+function describeConstraints(schema: JsonSchema): string[] {
+  const constraints: string[] = [];
+  const range = (min: unknown, max: unknown, unit: string) => {
+    if (min !== undefined && max !== undefined) constraints.push(`${min}-${max}${unit}`);
+    else if (min !== undefined) constraints.push(`≥ ${min}${unit}`);
+    else if (max !== undefined) constraints.push(`≤ ${max}${unit}`);
+  };
+
+  range(schema.minLength, schema.maxLength, " chars");
+  range(schema.minItems, schema.maxItems, " items");
+  range(schema.minimum ?? schema.exclusiveMinimum, schema.maximum ?? schema.exclusiveMaximum, "");
+  if (schema.pattern) constraints.push(`matches ${schema.pattern}`);
+  if (schema.default !== undefined) constraints.push(`default ${JSON.stringify(schema.default)}`);
+  return constraints;
+}
+
+/**
+ * Sample value for a schema: its default or first allowed value, with only
+ * the required fields of objects
+ */
+function buildExample(schema: JsonSchema, spec: OpenAPIDocument, depth = 0): unknown {
+  const resolved = resolveSchema(schema, spec);
+  if (depth > MAX_SCHEMA_DEPTH) return null;
+  if (resolved.default !== undefined) return resolved.default;
+  if (resolved.const !== undefined) return resolved.const;
+  if (Array.isArray(resolved.enum)) return resolved.enum[0];
+
+  const options = getOptions(resolved);
+  if (options.length > 0) return buildExample(options[0], spec, depth + 1);
+
+  const type = Array.isArray(resolved.type) ? resolved.type[0] : resolved.type;
+  switch (type) {
+    case "object": {
+      const properties = (resolved.properties ?? {}) as Record<string, JsonSchema>;
+      const required = (resolved.required ?? []) as string[];
+      return Object.fromEntries(required.map((key) => [key, buildExample(properties[key] ?? {}, spec, depth + 1)]));
+    }
+    case "array":
+      return Number(resolved.minItems ?? 0) > 0 ? [buildExample((resolved.items ?? {}) as JsonSchema, spec, depth + 1)] : [];
+    case "string":
+      return "string";
+    case "integer":
+    case "number":
+      return Number(resolved.minimum ?? 0);
+    case "boolean":
+      return false;
+    default:
+      return null;
+  }
+}
+
+function getRequestExample(operation: OpenAPIOperation, spec: OpenAPIDocument): string {
+  const media = operation.requestBody?.content["application/json"];
+  if (!media) return "";
+  const example = media.example !== undefined ? media.example : buildExample(media.schema, spec);
+  return JSON.stringify(example, null, 2);
+}
+
+function listOperations(spec: OpenAPIDocument): OperationEntry[] {
+  return Object.entries(spec.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({ method, path, operation }))
+  );
+}
+
+function formatBody(text: string): string {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+}
+
+// ============================================================================
+// Schema view
+// ============================================================================
+
+function SchemaView({ schema, spec, depth = 0 }: { schema: JsonSchema; spec: OpenAPIDocument; depth?: number }) {
+  const resolved = resolveSchema(schema, spec);
+  if (depth > MAX_SCHEMA_DEPTH) return null;
+
+  const options = getOptions(resolved);
+  if (options.length > 0 && options.some((option) => resolveSchema(option, spec).properties)) {
+    return (
+      <div className={styles.schemaOptions}>
+        <Text type="secondary">One of:</Text>
+        {options.map((option, index) => (
+          <div key={index} className={styles.schemaOption}>
+            <Text code>{describeType(option, spec)}</Text>
+            <SchemaView schema={option} spec={spec} depth={depth + 1} />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (resolved.items) {
+    return <SchemaView schema={resolved.items as JsonSchema} spec={spec} depth={depth + 1} />;
+  }
+
+  const properties = resolved.properties as Record<string, JsonSchema> | undefined;
+  if (!properties) return null;
+  const required = new Set((resolved.required ?? []) as string[]);
+
+  return (
+    <div className={styles.schemaProperties}>
+      {Object.entries(properties).map(([name, property]) => (
+        <div key={name} className={styles.schemaProperty}>
+          <Space size={6} wrap>
+            <Text strong>{name}</Text>
+            <Text code>{describeType(property, spec)}</Text>
+            {required.has(name) && <Tag color="orange">required</Tag>}
+            {describeConstraints(resolveSchema(property, spec)).map((constraint) => (
+              <Text key={constraint} type="secondary" style={{ fontSize: 12 }}>
+                {constraint}
+              </Text>
+            ))}
+          </Space>
+          {typeof property.description === "string" && (
+            <Paragraph type="secondary" style={{ margin: 0, fontSize: 13 }}>
+              {property.description}
+            </Paragraph>
+          )}
+          <SchemaView schema={property} spec={spec} depth={depth + 1} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// ============================================================================
+// Operation
+// ============================================================================
+
+function OperationDetails({ entry, spec, apiKey }: { entry: OperationEntry; spec: OpenAPIDocument; apiKey: string }) {
+  const { method, path, operation } = entry;
+  const parameters = useMemo(() => operation.parameters ?? [], [operation]);
+  const bodySchema = operation.requestBody?.content["application/json"]?.schema;
+  const bodyDescription = bodySchema && resolveSchema(bodySchema, spec).description;
+
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [body, setBody] = useState(() => getRequestExample(operation, spec));
+  const [result, setResult] = useState<TryResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const send = useCallback(async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setSending(true);
+    setError(null);
+    setResult(null);
+
+    const url = path.replace(/\{(\w+)\}/g, (_match, name: string) => encodeURIComponent(values[name] ?? ""));
+    const query = new URLSearchParams(
+      parameters
+        .filter((parameter) => parameter.in === "query" && values[parameter.name])
+        .map((parameter) => [parameter.name, values[parameter.name]])
+    ).toString();
+    const started = performance.now();
+
+    try {
+      const res = await fetch(query ? `${url}?${query}` : url, {
+        method: method.toUpperCase(),
+        headers: {
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          ...(bodySchema ? { "Content-Type": "application/json" } : {}),
+        },
+        body: bodySchema ? body : undefined,
+        signal: controller.signal,
+      });
+
+      // Read as it arrives, so streamed responses show up event by event
+      const reader = res.body?.getReader();
+      const decoder = new TextDecoder();
+      let text = "";
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        text += decoder.decode(value, { stream: true });
+        setResult({ status: res.status, durationMs: performance.now() - started, body: text });
+      }
+      setResult({ status: res.status, durationMs: performance.now() - started, body: formatBody(text) });
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        setError(err instanceof Error ? err.message : "Request failed");
+      }
+    } finally {
+      controllerRef.current = null;
+      setSending(false);
+    }
+  }, [apiKey, body, bodySchema, method, parameters, path, values]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return (
+    <Space orientation="vertical" size={16} style={{ width: "100%" }}>
+      {operation.description && (
+        <Paragraph style={{ marginBottom: 0 }}>{operation.description}</Paragraph>
+      )}
+
+      {parameters.length > 0 && (
+        <div>
+          <Title level={5}>Parameters</Title>
+          <div className={styles.schemaProperties}>
+            {parameters.map((parameter) => (
+              <div key={`${parameter.in}-${parameter.name}`} className={styles.schemaProperty}>
+                <Space size={6} wrap>
+                  <Text strong>{parameter.name}</Text>
+                  <Tag>{parameter.in}</Tag>
+                  <Text code>{describeType(parameter.schema, spec)}</Text>
+                  {parameter.required && <Tag color="orange">required</Tag>}
+                  {describeConstraints(parameter.schema).map((constraint) => (
+                    <Text key={constraint} type="secondary" style={{ fontSize: 12 }}>
+                      {constraint}
+                    </Text>
+                  ))}
+                </Space>
+                {parameter.description && (
+                  <Paragraph type="secondary" style={{ margin: 0, fontSize: 13 }}>
+                    {parameter.description}
+                  </Paragraph>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {bodySchema && (
+        <div>
+          <Title level={5}>
+            Request body <Text code>{describeType(bodySchema, spec)}</Text>
+          </Title>
+          {typeof bodyDescription === "string" && <Paragraph type="secondary">{bodyDescription}</Paragraph>}
+          <SchemaView schema={bodySchema} spec={spec} />
+        </div>
+      )}
+
+      <div>
+        <Title level={5}>Responses</Title>
+        <Space orientation="vertical" size={8} style={{ width: "100%" }}>
+          {Object.entries(operation.responses).map(([status, response]) => {
+            const schema = response.content?.["application/json"]?.schema;
+            // Show the envelope's payload rather than the envelope
+            const data = schema && (resolveSchema(schema, spec).properties as Record<string, JsonSchema> | undefined)?.data;
+            return (
+              <div key={status}>
+                <Space size={8}>
+                  <Tag color={status.startsWith("2") ? "success" : "error"}>{status}</Tag>
+                  <Text>{response.description}</Text>
+                  {schema && <Text code>{describeType((data ?? schema) as JsonSchema, spec)}</Text>}
+                </Space>
+                {response.content?.["text/event-stream"] && (
+                  <Paragraph type="secondary" style={{ margin: "4px 0 0", fontSize: 13 }}>
+                    {String(response.content["text/event-stream"].schema.description ?? "")}
+                  </Paragraph>
+                )}
+              </div>
+            );
+          })}
+        </Space>
+      </div>
+
+      <Card size="small" title="Try it" className={styles.tryCard}>
+        <Space orientation="vertical" size={12} style={{ width: "100%" }}>
+          {parameters.map((parameter) => (
+            <Input
+              key={`${parameter.in}-${parameter.name}`}
+              addonBefore={parameter.name}
+              placeholder={parameter.required ? "required" : "optional"}
+              value={values[parameter.name] ?? ""}
+              onChange={(event) => setValues((current) => ({ ...current, [parameter.name]: event.target.value }))}
+            />
+          ))}
+          {bodySchema && (
+            <Input.TextArea
+              value={body}
+              onChange={(event) => setBody(event.target.value)}
+              autoSize={{ minRows: 4, maxRows: 16 }}
+              className={styles.code}
+            />
+          )}
+          <Space>
+            <Button type="primary" icon={<SendOutlined />} onClick={send} loading={sending}>
+              Send
+            </Button>
+            {sending && (
+              <Button icon={<StopOutlined />} onClick={() => controllerRef.current?.abort()}>
+                Stop
+              </Button>
+            )}
+          </Space>
+          {error && <Alert type="error" showIcon title={error} />}
+          {result && (
+            <div>
+              <Space size={8}>
+                <Tag color={result.status < 400 ? "success" : "error"}>{result.status}</Tag>
+                <Text type="secondary">{Math.round(result.durationMs)} ms</Text>
+              </Space>
+              <pre className={styles.responseBody}>{result.body}</pre>
+            </div>
+          )}
+        </Space>
+      </Card>
+    </Space>
+  );
+}
+
+// ============================================================================
+// Page
+// ============================================================================
+
+export default function ApiReferencePage() {
+  const [spec, setSpec] = useState<OpenAPIDocument | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [apiKey, setApiKey] = useState("");
+  const [filter, setFilter] = useState("");
+
+  useEffect(() => {
+    fetch(OPENAPI_URL)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Loading ${OPENAPI_URL} failed with ${res.status}`);
+        return res.json();
+      })
+      .then(setSpec)
+      .catch((err) => setLoadError(err instanceof Error ? err.message : "Loading the API spec failed"));
+  }, []);
+
+  const operationsByTag = useMemo(() => {
+    if (!spec) return [];
+    const needle = filter.trim().toLowerCase();
+    const operations = listOperations(spec).filter(
+      ({ path, operation }) => !needle || path.toLowerCase().includes(needle) || operation.summary.toLowerCase().includes(needle)
+    );
+
+    return spec.tags
+      .map(({ name }) => ({ name, operations: operations.filter(({ operation }) => operation.tags.includes(name)) }))
+      .filter((tag) => tag.operations.length > 0);
+  }, [spec, filter]);
+
+  return (
+    <div className={styles.container}>
+      {/* Header */}
+      <div className={styles.header}>
+        <div>
+          <Title level={2} style={{ margin: 0, fontSize: 28 }}>
+            API Reference
+          </Title>
+          <Paragraph type="secondary" style={{ marginTop: 8, marginBottom: 0, fontSize: 15 }}>
+            {spec?.info.description ?? "Every route, generated from the schemas the server validates with"}
+          </Paragraph>
+        </div>
+        <Space>
+          {spec && <Tag color="blue">v{spec.info.version}</Tag>}
+          <Button icon={<LinkOutlined />} href={OPENAPI_URL} target="_blank">
+            openapi.json
+          </Button>
+        </Space>
+      </div>
+
+      <Space orientation="vertical" size={20} style={{ width: "100%" }}>
+        <Card
+          title={
+            <Space>
+              <KeyOutlined style={{ color: "#0d9488" }} />
+              <span>Authentication</span>
+            </Space>
+          }
+          className={styles.sectionCard}
+        >
+          <Space orientation="vertical" size={12} style={{ width: "100%" }}>
+            <Input.Password
+              placeholder="API key, sent as Authorization: Bearer <key>"
+              value={apiKey}
+              onChange={(event) => setApiKey(event.target.value)}
+            />
+            <Input
+              allowClear
+              placeholder="Filter by path or summary"
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+            />
+          </Space>
+        </Card>
+
+        {loadError && <Alert type="error" showIcon title="API spec unavailable" description={loadError} />}
+        {!spec && !loadError && <Spin />}
+        {spec && operationsByTag.length === 0 && (
+          <Empty description="No operations match" image={Empty.PRESENTED_IMAGE_SIMPLE} />
+        )}
+
+        {spec && operationsByTag.map((tag) => (
+          <Card
+            key={tag.name}
+            title={
+              <Space>
+                <ApiOutlined style={{ color: "#0d9488" }} />
+                <span>{tag.name}</span>
+                <Tag>{tag.operations.length}</Tag>
+              </Space>
+            }
+            className={styles.sectionCard}
+          >
+            <Collapse
+              items={tag.operations.map((entry) => {
+                const scope = entry.operation.security[0]?.apiKey?.[0];
+                return {
+                  key: entry.operation.operationId,
+                  label: (
+                    <Space size={8} wrap>
+                      <Tag color={METHOD_COLORS[entry.method]} className={styles.method}>
+                        {entry.method.toUpperCase()}
+                      </Tag>
+                      <Text code>{entry.path}</Text>
+                      <Text>{entry.operation.summary}</Text>
+                    </Space>
+                  ),
+                  extra: scope ? <Tag>{scope}</Tag> : <Tag color="green">public</Tag>,
+                  children: <OperationDetails entry={entry} spec={spec} apiKey={apiKey} />,
+                };
+              })}
+            />
+          </Card>
+        ))}
+      </Space>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { getClientId } from "@/lib/api/client";
+import {
+  isOllamaLoadRequest,
+  ollamaError,
+  ollamaLoadResponse,
+  ollamaValidationError,
+  runOllamaCompletion,
+  toOllamaChatRequest,
+} from "@/lib/api/ollama";
+import { preflight } from "@/lib/api/response";
+import { ollamaChatRequestSchema } from "@/lib/api/schemas";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return ollamaError(400, "Request body must be valid JSON");
+  }
+
+  const parsed = ollamaChatRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return ollamaValidationError(parsed.error);
+  }
+
+  if (isOllamaLoadRequest(parsed.data)) {
+    return ollamaLoadResponse("chat", parsed.data.model);
+  }
+
+  const generateRequest = toOllamaChatRequest(parsed.data);
+  if (!generateRequest.success) {
+    return ollamaValidationError(generateRequest.error);
+  }
+
+  return runOllamaCompletion(request, {
+    kind: "chat",
+    model: parsed.data.model,
+    request: generateRequest.data,
+    clientId: getClientId(request),
+  });
+}
@@ -0,0 +1,46 @@
+import { getClientId } from "@/lib/api/client";
+import {
+  isOllamaLoadRequest,
+  ollamaError,
+  ollamaLoadResponse,
+  ollamaValidationError,
+  runOllamaCompletion,
+  toOllamaGenerateRequest,
+} from "@/lib/api/ollama";
+import { preflight } from "@/lib/api/response";
+import { ollamaGenerateRequestSchema } from "@/lib/api/schemas";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return ollamaError(400, "Request body must be valid JSON");
+  }
+
+  const parsed = ollamaGenerateRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return ollamaValidationError(parsed.error);
+  }
+
+  if (isOllamaLoadRequest(parsed.data)) {
+    return ollamaLoadResponse("generate", parsed.data.model);
+  }
+
+  const generateRequest = toOllamaGenerateRequest(parsed.data);
+  if (!generateRequest.success) {
+    return ollamaValidationError(generateRequest.error);
+  }
+
+  return runOllamaCompletion(request, {
+    kind: "generate",
+    model: parsed.data.model,
+    request: generateRequest.data,
+    clientId: getClientId(request),
+  });
+}
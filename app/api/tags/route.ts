@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { listOllamaTags } from "@/lib/api/ollama";
+import { jobQueue } from "@/lib/api/queue";
+import { corsHeaders, preflight } from "@/lib/api/response";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function GET() {
+  return NextResponse.json(await listOllamaTags(jobQueue.getWorkers()), { headers: corsHeaders });
+}
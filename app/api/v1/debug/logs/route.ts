@@ -0,0 +1,45 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { debugLogsQuerySchema } from "@/lib/api/schemas";
+import { createLogTailStream, toDebugLogEntry, toLogLevel } from "@/lib/api/debug";
+import { sseHeaders } from "@/lib/api/stream";
+import { instrumentation, type LogQuery } from "@/lib/monitoring/registry";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Recent log entries from every service, oldest first. With stream=true
+ * the response stays open and new entries follow as server-sent events.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = debugLogsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid log query",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const { level, service, since, limit, stream } = parsed.data;
+  const query: LogQuery = { level: level ? toLogLevel(level) : undefined, service, since };
+  const logs = instrumentation.queryLogs(query, limit);
+
+  if (stream) {
+    return new Response(createLogTailStream(query, logs), {
+      status: 200,
+      headers: { ...corsHeaders, ...sseHeaders },
+    });
+  }
+
+  return ok({ logs: logs.map(toDebugLogEntry) }, 200, corsHeaders);
+}
@@ -0,0 +1,32 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { debugProfileQuerySchema } from "@/lib/api/schemas";
+import { buildProfile } from "@/lib/api/debug";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Aggregated metrics per service and operation, e.g. queue job.duration
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = debugProfileQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid profile query",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const { limit, ...filter } = parsed.data;
+  return ok({ metrics: buildProfile(filter, limit) }, 200, corsHeaders);
+}
@@ -0,0 +1,35 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { debugTracesQuerySchema } from "@/lib/api/schemas";
+import { toDebugTrace } from "@/lib/api/debug";
+import { instrumentation } from "@/lib/monitoring/registry";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Completed traces from every service, oldest first
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = debugTracesQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid trace query",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const { limit, ...query } = parsed.data;
+  const traces = instrumentation.queryTraces(query, limit).map(toDebugTrace);
+
+  return ok({ traces, active: instrumentation.countActiveTraces(query.service) }, 200, corsHeaders);
+}
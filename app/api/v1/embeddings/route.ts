@@ -0,0 +1,70 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { embeddingRequestSchema } from "@/lib/api/schemas";
+import { buildEmbeddingResponse } from "@/lib/api/embeddings";
+import { getClientId } from "@/lib/api/client";
+import { getApiKeyId } from "@/lib/api/auth";
+import { admissionHeaders, cancelJobOnAbort, generationErrorResponse, queueErrorResponse } from "@/lib/api/jobs";
+import { jobQueue, QueueError, type Job } from "@/lib/api/queue";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Embeds one text or a batch. The whole batch goes to the worker as a
+ * single job, and the vectors come back in input order.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Request body must be valid JSON",
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const parsed = embeddingRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid embeddings request",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const started = Date.now();
+
+  let job: Job;
+  try {
+    job = jobQueue.submitJob(parsed.data, { clientId: getClientId(request), apiKeyId: getApiKeyId(request) });
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
+  }
+
+  const headers = { ...corsHeaders, ...admissionHeaders(job) };
+  const stopWatching = cancelJobOnAbort(request.signal, job.id);
+
+  try {
+    const result = await jobQueue.waitForJob(job.id);
+
+    return ok(buildEmbeddingResponse(result, started), 200, headers);
+  } catch (error) {
+    return generationErrorResponse(error, headers);
+  } finally {
+    stopWatching();
+  }
+}
@@ -1,19 +1,15 @@
 
-import { fail, ok } from "@/lib/api/response";
-import { generateRequestSchema } from "@/lib/api/schemas";
-import { jobQueue } from "@/lib/api/queue";
-
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-  "Access-Control-Allow-Headers": "Content-Type, Authorization",
-};
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { generateRequestSchema, type GenerateRequest } from "@/lib/api/schemas";
+import { buildGenerateResponse } from "@/lib/api/generation";
+import { getClientId } from "@/lib/api/client";
+import { getApiKeyId } from "@/lib/api/auth";
+import { admissionHeaders, cancelJobOnAbort, generationErrorResponse, queueErrorResponse } from "@/lib/api/jobs";
+import { jobQueue, QueueError, type Job, type SubmitJobOptions } from "@/lib/api/queue";
+import { createJobStream, sseEvent, sseHeaders } from "@/lib/api/stream";
 
 export async function OPTIONS() {
-  return new Response(null, {
-    status: 200,
-    headers: corsHeaders,
-  });
+  return preflight();
 }
 
 export async function POST(request: Request) {
@@ -46,38 +42,72 @@ export async function POST(request: Request) {
   }
 
   const started = Date.now();
-  const prompt = parsed.data.prompt;
+  const submitOptions = { clientId: getClientId(request), apiKeyId: getApiKeyId(request) };
+
+  if (parsed.data.stream) {
+    return streamGenerate(parsed.data, submitOptions, started);
+  }
 
+  let job: Job;
   try {
-    const result = await jobQueue.addJob(parsed.data);
-
-    const text = typeof result === "string" ? result : result.text || "";
-    const perf = result.performance || {};
-    const usage = result.usage || {
-      prompt_tokens: 0,
-      completion_tokens: 0,
-      total_tokens: 0
-    };
-
-    return ok({
-      text,
-      tokens: text.split(/\s+/).length,
-      finish_reason: "stop",
-      usage,
-      performance: {
-        tokens_per_second: perf.tokens_per_second || 0,
-        latency_ms: Date.now() - started,
-        total_time_ms: Date.now() - started,
-      },
-    }, 200, corsHeaders);
+    job = jobQueue.submitJob(parsed.data, submitOptions);
   } catch (error) {
-    return fail(
-      {
-        code: "GENERATION_ERROR",
-        message: error instanceof Error ? error.message : "Failed to generate text or worker disconnected",
-      },
-      500,
-      corsHeaders
-    );
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
+  }
+
+  const headers = { ...corsHeaders, ...admissionHeaders(job) };
+  // A caller that disconnects or times out shouldn't keep the GPU busy
+  const stopWatching = cancelJobOnAbort(request.signal, job.id);
+
+  try {
+    const result = await jobQueue.waitForJob(job.id);
+
+    return ok(buildGenerateResponse(result, parsed.data, started), 200, headers);
+  } catch (error) {
+    return generationErrorResponse(error, headers);
+  } finally {
+    stopWatching();
+  }
+}
+
+/**
+ * Relays worker chunks to the caller as Server-Sent Events: one `token`
+ * event per delta, then `done` with the full completion or `error`
+ */
+function streamGenerate(request: GenerateRequest, submitOptions: SubmitJobOptions, started: number) {
+  let job: Job;
+  try {
+    job = jobQueue.submitJob(request, submitOptions);
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
   }
-}
\ No newline at end of file
+
+  const stream = createJobStream(job.id, (event) => {
+    if (event.type === "delta") {
+      return sseEvent({ type: "token", data: { token: event.text } });
+    }
+
+    if (event.job.status === "succeeded") {
+      return sseEvent({
+        type: "done",
+        data: { completion: buildGenerateResponse(event.job.result, event.job.request, started, event.job.finishedAt) },
+      });
+    }
+
+    return sseEvent({
+      type: "error",
+      data: { error: event.job.error ?? `Job ${event.job.status}`, code: event.job.errorCode ?? null },
+    });
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: { ...corsHeaders, ...sseHeaders, ...admissionHeaders(job) },
+  });
+}
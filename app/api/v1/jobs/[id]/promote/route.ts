@@ -0,0 +1,25 @@
+import { corsHeaders, ok, preflight } from "@/lib/api/response";
+import { queueErrorResponse, toJobResponse } from "@/lib/api/jobs";
+import { jobQueue, QueueError } from "@/lib/api/queue";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function POST(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  try {
+    const job = jobQueue.promoteJob(id);
+    return ok(toJobResponse(job), 200, corsHeaders);
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,42 @@
+import { corsHeaders, ok, preflight } from "@/lib/api/response";
+import { getOwnedJob, jobNotFoundResponse, queueErrorResponse, toJobResponse } from "@/lib/api/jobs";
+import { jobQueue, QueueError } from "@/lib/api/queue";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const job = getOwnedJob(request, id);
+
+  if (!job) {
+    return jobNotFoundResponse(corsHeaders);
+  }
+
+  return ok(toJobResponse(job), 200, corsHeaders);
+}
+
+export async function DELETE(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+
+  if (!getOwnedJob(request, id)) {
+    return jobNotFoundResponse(corsHeaders);
+  }
+
+  try {
+    const job = jobQueue.cancelJob(id);
+    return ok(toJobResponse(job), 200, corsHeaders);
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,90 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { generateRequestSchema, listJobsQuerySchema } from "@/lib/api/schemas";
+import { getClientId } from "@/lib/api/client";
+import { getApiKeyId } from "@/lib/api/auth";
+import { admissionHeaders, getJobOwnerId, queueErrorResponse, toJobResponse } from "@/lib/api/jobs";
+import { jobQueue, QueueError } from "@/lib/api/queue";
+
+export const dynamic = "force-dynamic";
+
+// Async jobs outlive a single HTTP request, so give them room to wait in line
+const ASYNC_JOB_TIMEOUT_MS = 10 * 60 * 1000;
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Request body must be valid JSON",
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const parsed = generateRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid generate request",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  try {
+    const job = jobQueue.submitJob(parsed.data, {
+      timeoutMs: ASYNC_JOB_TIMEOUT_MS,
+      detached: true,
+      clientId: getClientId(request),
+      apiKeyId: getApiKeyId(request),
+    });
+
+    return ok(toJobResponse(job), 202, {
+      ...corsHeaders,
+      ...admissionHeaders(job),
+      Location: `/api/v1/jobs/${job.id}`,
+    });
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
+  }
+}
+
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = listJobsQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid job filters",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  // Keys list only their own jobs
+  const ownerId = getJobOwnerId(request);
+  const jobs = jobQueue
+    .listJobs({ ...parsed.data, ...(ownerId ? { apiKeyId: ownerId } : {}) })
+    .map(toJobResponse);
+
+  return ok({ jobs, pending: jobQueue.getPendingCount() }, 200, corsHeaders);
+}
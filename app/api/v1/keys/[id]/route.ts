@@ -0,0 +1,26 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { apiKeyStore, toApiKeyResponse } from "@/lib/api/api-keys";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Revokes a key. It stops working on the next request.
+ */
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const record = apiKeyStore.revoke(id);
+
+  if (!record) {
+    return fail({ code: "API_KEY_NOT_FOUND", message: "API key not found" }, 404, corsHeaders);
+  }
+
+  return ok(toApiKeyResponse(record), 200, corsHeaders);
+}
@@ -0,0 +1,56 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { apiKeyCreateSchema } from "@/lib/api/schemas";
+import { apiKeyStore, toApiKeyResponse } from "@/lib/api/api-keys";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Issues a key. The plaintext key is in this response only; the server
+ * keeps its hash.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Request body must be valid JSON",
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const parsed = apiKeyCreateSchema.safeParse(body);
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid API key request",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const { name, scopes, rate_limit_per_minute, token_quota, max_priority } = parsed.data;
+  const { key, record } = apiKeyStore.issue(name, scopes, {
+    rateLimitPerMinute: rate_limit_per_minute,
+    tokenQuota: token_quota,
+    maxPriority: max_priority,
+  });
+
+  return ok({ ...toApiKeyResponse(record), key }, 201, corsHeaders);
+}
+
+export async function GET() {
+  return ok({ keys: apiKeyStore.list().map(toApiKeyResponse) }, 200, corsHeaders);
+}
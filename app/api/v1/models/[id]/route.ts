@@ -0,0 +1,24 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { getModelDetails } from "@/lib/api/models";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  // Next.js has already decoded the segment
+  const details = await getModelDetails(id);
+
+  if (!details) {
+    return fail({ code: "MODEL_NOT_FOUND", message: "Model is not in the manifest or on any connected worker" }, 404, corsHeaders);
+  }
+
+  return ok(details, 200, corsHeaders);
+}
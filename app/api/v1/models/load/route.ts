@@ -0,0 +1,60 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { modelCommandSchema } from "@/lib/api/schemas";
+import { queueErrorResponse } from "@/lib/api/jobs";
+import { toModelOperationResponse } from "@/lib/api/models";
+import { jobQueue, QueueError } from "@/lib/api/queue";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Asks a connected worker to load, unload or download a model. Answers
+ * 202 straight away; follow the operation at its Location.
+ */
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Request body must be valid JSON",
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const parsed = modelCommandSchema.safeParse(body);
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid model command",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  try {
+    const { action, model_id, worker_id } = parsed.data;
+    const operation = jobQueue.submitModelCommand(action, model_id, worker_id);
+
+    return ok(toModelOperationResponse(operation), 202, {
+      ...corsHeaders,
+      Location: `/api/v1/models/operations/${operation.id}`,
+    });
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return queueErrorResponse(error, corsHeaders);
+    }
+    throw error;
+  }
+}
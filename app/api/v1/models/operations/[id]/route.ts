@@ -0,0 +1,55 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { modelOperationQuerySchema } from "@/lib/api/schemas";
+import { createModelOperationStream, toModelOperationResponse } from "@/lib/api/models";
+import { jobQueue } from "@/lib/api/queue";
+import { sseHeaders } from "@/lib/api/stream";
+
+export const dynamic = "force-dynamic";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * A model operation's state and progress. With stream=true, server-sent
+ * events follow it until it finishes.
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const { id } = await params;
+  const { searchParams } = new URL(request.url);
+  const parsed = modelOperationQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid model operation query",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const operation = jobQueue.getModelOperation(id);
+  if (!operation) {
+    return fail(
+      { code: "MODEL_OPERATION_NOT_FOUND", message: "Model operation not found or past its retention window" },
+      404,
+      corsHeaders
+    );
+  }
+
+  if (parsed.data.stream) {
+    return new Response(createModelOperationStream(id), {
+      status: 200,
+      headers: { ...corsHeaders, ...sseHeaders },
+    });
+  }
+
+  return ok(toModelOperationResponse(operation), 200, corsHeaders);
+}
@@ -1,17 +1,27 @@
-import { ok } from "@/lib/api/response";
+import { fail, ok } from "@/lib/api/response";
+import { withWorkerDownloads } from "@/lib/api/models";
+import { modelListQuerySchema } from "@/lib/api/schemas";
 import { modelRegistryService } from "@/lib/services/model-registry-service";
 
 export async function GET(request: Request) {
   const { searchParams } = new URL(request.url);
-  const vramGb = searchParams.get("vram_gb");
-  const storageFreeGb = searchParams.get("storage_free_gb");
-  const parsedVram = vramGb ? Number(vramGb) : undefined;
-  const parsedStorage = storageFreeGb ? Number(storageFreeGb) : undefined;
+  const parsed = modelListQuerySchema.safeParse(Object.fromEntries(searchParams));
 
-  const models = await modelRegistryService.list();
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid model query",
+        details: parsed.error.flatten(),
+      },
+      400
+    );
+  }
+
+  const models = withWorkerDownloads(await modelRegistryService.list());
   const suggestions = modelRegistryService.suggestCompatibleModels(models, {
-    vramGb: Number.isFinite(parsedVram) ? parsedVram : undefined,
-    storageFreeGb: Number.isFinite(parsedStorage) ? parsedStorage : undefined,
+    vramGb: parsed.data.vram_gb,
+    storageFreeGb: parsed.data.storage_free_gb,
   });
 
   return ok({
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { getOpenAPIDocument } from "@/lib/api/openapi";
+import { corsHeaders, preflight } from "@/lib/api/response";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * The API's OpenAPI 3.1 document, unwrapped so tools can read it directly.
+ * Needs no key, so the API reference page and codegen can load it.
+ */
+export async function GET() {
+  return NextResponse.json(getOpenAPIDocument(), { headers: corsHeaders });
+}
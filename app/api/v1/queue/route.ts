@@ -0,0 +1,12 @@
+import { corsHeaders, ok, preflight } from "@/lib/api/response";
+import { jobQueue } from "@/lib/api/queue";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function GET() {
+  return ok(jobQueue.getSnapshot(), 200, corsHeaders);
+}
@@ -1,7 +1,16 @@
-import { ok } from "@/lib/api/response";
+import { isAdminCaller } from "@/lib/api/auth";
+import { corsHeaders, ok, preflight } from "@/lib/api/response";
 import { systemService } from "@/lib/services/system-service";
 
-export async function GET() {
-  const status = systemService.getStatus();
-  return ok(status);
-}
\ No newline at end of file
+// Built from live worker telemetry, so never prerendered
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function GET(request: Request) {
+  // Worker IDs would let a worker key act as another key's worker
+  const status = systemService.getStatus(isAdminCaller(request));
+  return ok(status, 200, corsHeaders);
+}
@@ -0,0 +1,54 @@
+import { corsHeaders, fail, ok, preflight } from "@/lib/api/response";
+import { usageQuerySchema } from "@/lib/api/schemas";
+import { getApiKeyId } from "@/lib/api/auth";
+import { isAdminKeyId } from "@/lib/api/api-keys";
+import { usageTracker } from "@/lib/api/usage";
+
+export const dynamic = "force-dynamic";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+/**
+ * Requests and tokens used this quota period. Keys see their own usage;
+ * admin keys, and anyone when auth is disabled, see every key's or the one
+ * named by key_id.
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = usageQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+  if (!parsed.success) {
+    return fail(
+      {
+        code: "VALIDATION_ERROR",
+        message: "Invalid usage query",
+        details: parsed.error.flatten(),
+      },
+      400,
+      corsHeaders
+    );
+  }
+
+  const callerId = getApiKeyId(request);
+  const requestedId = parsed.data.key_id;
+
+  if (!callerId || isAdminKeyId(callerId)) {
+    const usage = requestedId ? [usageTracker.get(requestedId)] : usageTracker.list();
+    return ok({ usage }, 200, corsHeaders);
+  }
+
+  if (requestedId && requestedId !== callerId) {
+    return fail(
+      {
+        code: "FORBIDDEN",
+        message: "Only admin keys may read another key's usage",
+      },
+      403,
+      corsHeaders
+    );
+  }
+
+  return ok({ usage: [usageTracker.get(callerId)] }, 200, corsHeaders);
+}
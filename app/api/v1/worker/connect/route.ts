@@ -1,8 +1,29 @@
 
-import { ok } from "@/lib/api/response";
+import { getApiKeyId } from "@/lib/api/auth";
+import { workerForbiddenResponse } from "@/lib/api/jobs";
+import { fail, ok } from "@/lib/api/response";
 import { jobQueue } from "@/lib/api/queue";
+import { workerConnectSchema } from "@/lib/api/schemas";
 
-export async function POST() {
-    jobQueue.connect();
-    return ok({ success: true });
+export async function POST(request: Request) {
+    let body: unknown = {};
+    try {
+        body = await request.json();
+    } catch {
+        // Body is optional; the server issues an ID when none is supplied
+    }
+
+    const parsed = workerConnectSchema.safeParse(body);
+    if (!parsed.success) {
+        return fail({ code: "VALIDATION_ERROR", message: "Invalid connect request", details: parsed.error.flatten() }, 400);
+    }
+
+    const { worker_id, capacity, model, models } = parsed.data;
+    const apiKeyId = getApiKeyId(request);
+    if (worker_id && !jobQueue.mayActAsWorker(worker_id, apiKeyId)) {
+        return workerForbiddenResponse();
+    }
+
+    const workerId = jobQueue.connect(worker_id, capacity, { model, models }, apiKeyId);
+    return ok({ success: true, worker_id: workerId });
 }
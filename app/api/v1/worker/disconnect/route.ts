@@ -1,8 +1,26 @@
-
-import { ok } from "@/lib/api/response";
+import { getApiKeyId } from "@/lib/api/auth";
+import { workerForbiddenResponse } from "@/lib/api/jobs";
+import { fail, ok } from "@/lib/api/response";
 import { jobQueue } from "@/lib/api/queue";
+import { workerDisconnectSchema } from "@/lib/api/schemas";
+
+export async function POST(request: Request) {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return fail({ code: "VALIDATION_ERROR", message: "Invalid JSON" }, 400);
+    }
+
+    const parsed = workerDisconnectSchema.safeParse(body);
+    if (!parsed.success) {
+        return fail({ code: "VALIDATION_ERROR", message: "Missing worker ID", details: parsed.error.flatten() }, 400);
+    }
+
+    if (!jobQueue.mayActAsWorker(parsed.data.worker_id, getApiKeyId(request))) {
+        return workerForbiddenResponse();
+    }
 
-export async function POST() {
-    jobQueue.unregisterWorker();
+    jobQueue.disconnect(parsed.data.worker_id);
     return ok({ success: true });
 }
@@ -1,15 +1,72 @@
 
-import { ok } from "@/lib/api/response";
+import { getApiKeyId } from "@/lib/api/auth";
+import { workerForbiddenResponse } from "@/lib/api/jobs";
+import { fail, ok } from "@/lib/api/response";
 import { jobQueue } from "@/lib/api/queue";
+import { workerPollQuerySchema, workerUpstreamSchema } from "@/lib/api/schemas";
 
 export const dynamic = "force-dynamic";
 
-export async function GET() {
-    const job = jobQueue.getNextJob();
+const notConnected = () =>
+    fail({ code: "WORKER_NOT_CONNECTED", message: "Worker is not connected. Call /api/v1/worker/connect first." }, 404);
 
-    // Return even if null, so client knows there's no work
+/**
+ * Downstream half of the worker channel: jobs and cancellations.
+ * `?wait=30` holds the request until a message arrives (long-poll);
+ * without it the endpoint answers immediately, for plain interval polling.
+ */
+export async function GET(request: Request) {
+    const { searchParams } = new URL(request.url);
+    const parsed = workerPollQuerySchema.safeParse(Object.fromEntries(searchParams));
+
+    if (!parsed.success) {
+        return fail({ code: "VALIDATION_ERROR", message: "Invalid poll request", details: parsed.error.flatten() }, 400);
+    }
+
+    const { worker_id, wait } = parsed.data;
+    if (!jobQueue.mayActAsWorker(worker_id, getApiKeyId(request))) {
+        return workerForbiddenResponse();
+    }
+
+    const messages = await jobQueue.pollMessages(worker_id, wait * 1000, request.signal);
+
+    if (!messages) {
+        return notConnected();
+    }
+
+    // Return even if empty, so client knows there's no work
     return ok({
-        job,
+        messages,
         pending: jobQueue.getPendingCount(),
     });
 }
+
+/**
+ * Upstream half of the worker channel: heartbeats, lease renewals and
+ * streamed chunks, batched
+ */
+export async function POST(request: Request) {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        return fail({ code: "VALIDATION_ERROR", message: "Invalid JSON" }, 400);
+    }
+
+    const parsed = workerUpstreamSchema.safeParse(body);
+    if (!parsed.success) {
+        return fail({ code: "VALIDATION_ERROR", message: "Invalid worker messages", details: parsed.error.flatten() }, 400);
+    }
+
+    if (!jobQueue.mayActAsWorker(parsed.data.worker_id, getApiKeyId(request))) {
+        return workerForbiddenResponse();
+    }
+
+    const acks = jobQueue.receiveMessages(parsed.data.worker_id, parsed.data.messages);
+
+    if (!acks) {
+        return notConnected();
+    }
+
+    return ok({ acks });
+}
@@ -1,6 +1,8 @@
-
+import { getApiKeyId } from "@/lib/api/auth";
+import { workerForbiddenResponse } from "@/lib/api/jobs";
 import { fail, ok } from "@/lib/api/response";
 import { jobQueue } from "@/lib/api/queue";
+import { workerResultSchema } from "@/lib/api/schemas";
 
 export async function POST(request: Request) {
     let body: unknown;
@@ -10,17 +12,30 @@ export async function POST(request: Request) {
         return fail({ code: "VALIDATION_ERROR", message: "Invalid JSON" }, 400);
     }
 
-    const { id, result, error } = body as any;
+    const parsed = workerResultSchema.safeParse(body);
+    if (!parsed.success) {
+        return fail({ code: "VALIDATION_ERROR", message: "Invalid worker result", details: parsed.error.flatten() }, 400);
+    }
 
-    if (!id) {
-        return fail({ code: "VALIDATION_ERROR", message: "Missing job ID" }, 400);
+    const { id, worker_id, result, error, cancelled, rejected } = parsed.data;
+    if (!jobQueue.mayActAsWorker(worker_id, getApiKeyId(request))) {
+        return workerForbiddenResponse();
     }
 
-    const success = jobQueue.completeJob(id, result, error);
+    const outcome = jobQueue.completeJob(id, worker_id, {
+        result,
+        error,
+        cancelled: cancelled === true,
+        rejected: rejected === true,
+    });
 
-    if (!success) {
+    if (outcome === "not_found") {
         return fail({ code: "JOB_NOT_FOUND", message: "Job not found or already completed" }, 404);
     }
 
+    if (outcome === "lease_lost") {
+        return fail({ code: "LEASE_LOST", message: "Worker no longer holds the lease for this job" }, 409);
+    }
+
     return ok({ success: true });
 }
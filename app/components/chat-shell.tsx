@@ -2,7 +2,8 @@
 
 import { useLLMSetup } from "@/hooks/use-llm-setup";
 import { STORAGE_KEYS } from "@/lib/browser/model-setup";
-import { RobotOutlined, SendOutlined, SettingOutlined, UserOutlined } from "@ant-design/icons";
+import { isEmbeddingModel } from "@/lib/browser/webllm-engine";
+import { RobotOutlined, SendOutlined, SettingOutlined, StopOutlined, ToolOutlined, UserOutlined } from "@ant-design/icons";
 import {
   Alert,
   Avatar,
@@ -19,7 +20,8 @@ import {
   Tooltip,
   Typography,
 } from "antd";
-import { useEffect, useMemo, useState } from "react";
+import type { ToolCall } from "@/types/api";
+import { useEffect, useMemo, useRef, useState } from "react";
 import styles from "./chat-shell.module.css";
 
 const { TextArea } = Input;
@@ -27,9 +29,13 @@ const { Title, Paragraph, Text } = Typography;
 
 interface ChatMessage {
   id: string;
-  role: "user" | "assistant" | "system";
+  role: "user" | "assistant" | "system" | "tool";
   content: string;
   timestamp?: number;
+  // Calls an assistant turn made instead of answering in text
+  toolCalls?: ToolCall[];
+  // The call a tool turn holds the output of
+  toolCallId?: string;
 }
 
 interface GenerationSettings {
@@ -37,6 +43,8 @@ interface GenerationSettings {
   maxTokens: number;
   temperature: number;
   jsonMode: boolean;
+  // Sent to the generate API when there is no browser model to run locally
+  apiKey?: string;
 }
 
 export function ChatShell() {
@@ -46,6 +54,7 @@ export function ChatShell() {
   const [isGenerating, setIsGenerating] = useState(false);
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [form] = Form.useForm<GenerationSettings>();
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   const loadedModel = useMemo(
     () => models.find((model) => model.id === loadedModelId) ?? null,
@@ -53,7 +62,8 @@ export function ChatShell() {
   );
 
   const downloadedModels = useMemo(
-    () => models.filter((model) => model.downloaded),
+    // Embedding models can't chat
+    () => models.filter((model) => model.downloaded && !isEmbeddingModel(model)),
     [models]
   );
 
@@ -102,6 +112,9 @@ export function ChatShell() {
     setPrompt("");
     setIsGenerating(true);
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
       const savedSettings = (() => {
         if (typeof window === "undefined") {
@@ -132,6 +145,13 @@ export function ChatShell() {
         },
       ]);
 
+      const inputForModel = [...messages, userMessage].map(m => ({
+        role: m.role,
+        content: m.content,
+        ...(m.toolCalls ? { tool_calls: m.toolCalls } : {}),
+        ...(m.toolCallId ? { tool_call_id: m.toolCallId } : {}),
+      }));
+
       if (loadedModel?.source?.provider === "webllm") {
         const { generateStreamWithWebLLM, ensureWebLLMModelLoaded } = await import("@/lib/browser/webllm-engine");
 
@@ -139,15 +159,16 @@ export function ChatShell() {
           await ensureWebLLMModelLoaded(loadedModelId);
         }
 
-        const inputForModel = [...messages, userMessage].map(m => ({ role: m.role, content: m.content }));
-
         const stream = generateStreamWithWebLLM(inputForModel, {
           maxTokens: savedSettings?.maxTokens ?? 256,
           temperature: savedSettings?.temperature ?? 0.7,
+          jsonMode: savedSettings?.jsonMode ?? false,
+          signal: controller.signal,
         });
 
         let fullContent = "";
         for await (const chunk of stream) {
+          if (controller.signal.aborted) break;
           fullContent += chunk;
           setMessages((prev) =>
             prev.map((msg) =>
@@ -156,12 +177,17 @@ export function ChatShell() {
           );
         }
       } else {
-        // Fallback or API mode
+        // Fallback or API mode. Aborting the request cancels the job on the server.
+        const apiKey = savedSettings?.apiKey?.trim();
         const response = await fetch("/api/v1/generate", {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          signal: controller.signal,
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
           body: JSON.stringify({
-            prompt: userMessage.content,
+            messages: inputForModel,
             max_tokens: savedSettings?.maxTokens ?? 256,
             temperature: savedSettings?.temperature ?? 0.7,
             json_mode: savedSettings?.jsonMode ?? false,
@@ -173,7 +199,11 @@ export function ChatShell() {
           data?: { text: string };
           error?: { message: string };
         };
-        const assistantText = payload.success ? payload.data?.text ?? "" : payload.error?.message ?? "Generation failed";
+        // A missing or under-scoped key is fixable here, so say how
+        const isAuthError = response.status === 401 || response.status === 403;
+        const assistantText = isAuthError
+          ? `The API refused the request: ${payload.error?.message ?? response.statusText}. Set an API key with the generate scope in Settings.`
+          : payload.success ? payload.data?.text ?? "" : payload.error?.message ?? "Generation failed";
 
         setMessages((prev) =>
           prev.map((msg) =>
@@ -181,11 +211,20 @@ export function ChatShell() {
           )
         );
       }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsGenerating(false);
     }
   }
 
+  function stopGenerating() {
+    abortControllerRef.current?.abort();
+  }
+
   const formatTime = (timestamp?: number) => {
     if (!timestamp) return "";
     const date = new Date(timestamp);
@@ -263,13 +302,26 @@ export function ChatShell() {
                     />
                   )}
 
+                  {message.role === "tool" && (
+                    <Avatar
+                      size={32}
+                      icon={<ToolOutlined />}
+                      className={styles.messageAvatar}
+                      style={{ background: '#64748b' }}
+                    />
+                  )}
+
                   <div className={styles.messageBubbleWrapper}>
                     <div
                       className={`${styles.messageBubble} ${message.role === "user" ? styles.userBubble : styles.assistantBubble
                         }`}
                     >
                       <div className={styles.messageContent}>
-                        {message.content || (
+                        {message.content || message.toolCalls?.map((call) => (
+                          <div key={call.id}>
+                            <Text code>{`${call.function.name}(${call.function.arguments})`}</Text>
+                          </div>
+                        )) || (
                           <span className={styles.typingIndicator}>
                             <span></span>
                             <span></span>
@@ -325,17 +377,29 @@ export function ChatShell() {
             disabled={!loadedModelId || isGenerating}
             autoSize={{ minRows: 1, maxRows: 6 }}
           />
-          <Tooltip title={canSend ? "Send message (Enter)" : "Type a message"}>
-            <Button
-              type="primary"
-              icon={<SendOutlined />}
-              disabled={!canSend}
-              loading={isGenerating}
-              onClick={sendPrompt}
-              className={styles.sendButton}
-              size="large"
-            />
-          </Tooltip>
+          {isGenerating ? (
+            <Tooltip title="Stop generating">
+              <Button
+                danger
+                type="primary"
+                icon={<StopOutlined />}
+                onClick={stopGenerating}
+                className={styles.sendButton}
+                size="large"
+              />
+            </Tooltip>
+          ) : (
+            <Tooltip title={canSend ? "Send message (Enter)" : "Type a message"}>
+              <Button
+                type="primary"
+                icon={<SendOutlined />}
+                disabled={!canSend}
+                onClick={sendPrompt}
+                className={styles.sendButton}
+                size="large"
+              />
+            </Tooltip>
+          )}
         </div>
 
         <div className={styles.inputHelper}>
@@ -412,6 +476,14 @@ export function ChatShell() {
             <Switch />
           </Form.Item>
 
+          <Form.Item
+            label={<Text strong>API Key</Text>}
+            name="apiKey"
+            extra="Used when chat falls back to the generate API; needs the generate scope"
+          >
+            <Input.Password placeholder="tvm_..." autoComplete="off" />
+          </Form.Item>
+
           <Button
             type="primary"
             htmlType="submit"
@@ -3,6 +3,7 @@
 import {
   BugOutlined,
   MessageOutlined,
+  ReadOutlined,
   ThunderboltOutlined
 } from "@ant-design/icons";
 import type { MenuProps } from "antd";
@@ -31,6 +32,11 @@ const items: MenuProps["items"] = [
     icon: <BugOutlined />,
     label: <Link href="/api-access">API Access</Link>,
   },
+  {
+    key: "/api-reference",
+    icon: <ReadOutlined />,
+    label: <Link href="/api-reference">API Reference</Link>,
+  },
 ];
 
 export function AppShell({ children }: { children: ReactNode }) {
@@ -32,6 +32,7 @@ import {
 } from "antd";
 import { useMemo } from "react";
 import { useLLMSetup } from "@/hooks/use-llm-setup";
+import { isEmbeddingModel } from "@/lib/browser/webllm-engine";
 import styles from "./compatibility.module.css";
 
 const { Text, Title, Paragraph } = Typography;
@@ -49,6 +50,7 @@ export default function CompatibilityPage() {
     downloadModel,
     loadSelectedModel,
     loadedModelId,
+    loadedEmbeddingModelId,
     downloadError,
     deleteModel,
     clearAllModels,
@@ -104,7 +106,8 @@ export default function CompatibilityPage() {
   const canDownload = Boolean(
     selectedModel?.source?.model_uri && !selectedModel?.downloaded && !isDownloading
   );
-  const canLoad = Boolean(selectedModel?.downloaded) && selectedModelId !== loadedModelId;
+  const isLoaded = (modelId: string) => modelId === loadedModelId || modelId === loadedEmbeddingModelId;
+  const canLoad = Boolean(selectedModel?.downloaded) && !isLoaded(selectedModelId);
   const canDelete = Boolean(selectedModel?.downloaded);
 
   const storageStatus = useMemo(() => {
@@ -288,7 +291,7 @@ export default function CompatibilityPage() {
                 options={models.map((model) => {
                   let statusIndicator = null;
 
-                  if (model.id === loadedModelId) {
+                  if (isLoaded(model.id)) {
                     statusIndicator = (
                       <Tag color="blue" icon={<CheckOutlined />}>
                         Loaded
@@ -316,6 +319,11 @@ export default function CompatibilityPage() {
                             <Tag variant={"filled"} color="purple" style={{ fontSize: 11 }}>
                               {model.quality_tier}
                             </Tag>
+                            {isEmbeddingModel(model) && (
+                              <Tag variant={"filled"} color="geekblue" style={{ fontSize: 11 }}>
+                                embedding
+                              </Tag>
+                            )}
                           </Space>
                         </div>
                         <div className={styles.selectOptionRight}>{statusIndicator}</div>
@@ -345,7 +353,8 @@ export default function CompatibilityPage() {
                         <Tag color="blue">VRAM: {selectedModel.vram_required}</Tag>
                         <Tag color="purple">Size: {selectedModel.size}</Tag>
                         <Tag color="cyan">Speed: {selectedModel.speed_tier}</Tag>
-                        {loadedModelId === selectedModel.id && (
+                        {isEmbeddingModel(selectedModel) && <Tag color="geekblue">Embedding</Tag>}
+                        {isLoaded(selectedModel.id) && (
                           <Tag color="gold" icon={<RocketOutlined />}>
                             Currently Loaded
                           </Tag>
@@ -409,7 +418,9 @@ export default function CompatibilityPage() {
                     disabled={!canLoad}
                     block
                   >
-                    {loadedModelId === selectedModelId ? "Already Loaded" : "Load for Inference"}
+                    {isLoaded(selectedModelId)
+                      ? "Already Loaded"
+                      : isEmbeddingModel(selectedModel) ? "Load for Embeddings" : "Load for Inference"}
                   </Button>
                   {canDelete && (
                     <Popconfirm
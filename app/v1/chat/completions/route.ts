@@ -0,0 +1,36 @@
+import { getClientId } from "@/lib/api/client";
+import { openAIError, openAIValidationError, runOpenAICompletion, toChatGenerateRequest } from "@/lib/api/openai";
+import { preflight } from "@/lib/api/response";
+import { chatCompletionRequestSchema } from "@/lib/api/schemas";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return openAIError(400, "Request body must be valid JSON");
+  }
+
+  const parsed = chatCompletionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return openAIValidationError(parsed.error);
+  }
+
+  const generateRequest = toChatGenerateRequest(parsed.data);
+  if (!generateRequest.success) {
+    return openAIValidationError(generateRequest.error);
+  }
+
+  return runOpenAICompletion(request, {
+    kind: "chat",
+    model: parsed.data.model,
+    request: generateRequest.data,
+    clientId: getClientId(request),
+    includeUsage: parsed.data.stream_options?.include_usage ?? false,
+  });
+}
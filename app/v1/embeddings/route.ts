@@ -0,0 +1,35 @@
+import { getClientId } from "@/lib/api/client";
+import { openAIError, openAIValidationError, runOpenAIEmbedding, toEmbeddingRequest } from "@/lib/api/openai";
+import { preflight } from "@/lib/api/response";
+import { openAIEmbeddingRequestSchema } from "@/lib/api/schemas";
+
+export async function OPTIONS() {
+  return preflight();
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return openAIError(400, "Request body must be valid JSON");
+  }
+
+  const parsed = openAIEmbeddingRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return openAIValidationError(parsed.error);
+  }
+
+  const embeddingRequest = toEmbeddingRequest(parsed.data);
+  if (!embeddingRequest.success) {
+    return openAIValidationError(embeddingRequest.error);
+  }
+
+  return runOpenAIEmbedding(request, {
+    model: parsed.data.model,
+    request: embeddingRequest.data,
+    clientId: getClientId(request),
+    encodingFormat: parsed.data.encoding_format ?? "float",
+  });
+}
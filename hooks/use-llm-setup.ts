@@ -4,14 +4,21 @@ import { useCallback, useEffect, useMemo, useState } from "react";
 import type { ModelInfo, ModelSuggestion } from "@/types/api";
 import {
   getCompatibilityState,
+  getLoadedEmbeddingModelId,
   getLoadedModelId,
   isModelDownloaded,
   markModelDownloaded,
+  setLoadedEmbeddingModelId,
   setLoadedModelId,
   deleteModelFromCache,
   clearAllWebLLMCaches,
 } from "@/lib/browser/model-setup";
-import { ensureWebLLMModelLoaded, getWebLLMModels } from "@/lib/browser/webllm-engine";
+import {
+  ensureWebLLMEmbeddingModelLoaded,
+  ensureWebLLMModelLoaded,
+  getWebLLMModels,
+  isEmbeddingModel,
+} from "@/lib/browser/webllm-engine";
 
 // ============================================================================
 // Types & Interfaces
@@ -35,6 +42,8 @@ interface UseLLMSetupReturn {
   selectedModelId: string;
   selectedModel: ModelInfo | null;
   loadedModelId: string | null;
+  // Embedding models load into their own slot, next to the chat model
+  loadedEmbeddingModelId: string | null;
   suggestions: ModelSuggestion[];
 
   // State
@@ -74,6 +83,7 @@ export function useLLMSetup(): UseLLMSetupReturn {
   const [models, setModels] = useState<ModelInfo[]>([]);
   const [selectedModelId, setSelectedModelId] = useState<string>("");
   const [loadedModelId, setLoadedModelIdState] = useState<string | null>(null);
+  const [loadedEmbeddingModelId, setLoadedEmbeddingModelIdState] = useState<string | null>(null);
   const [downloadProgress, setDownloadProgress] = useState(0);
   const [isDownloading, setIsDownloading] = useState(false);
   const [downloadError, setDownloadError] = useState<string | null>(null);
@@ -151,7 +161,8 @@ export function useLLMSetup(): UseLLMSetupReturn {
 
     try {
       // Download and initialize model with progress tracking
-      await ensureWebLLMModelLoaded(selectedModel.id, (progress) => {
+      const ensureLoaded = isEmbeddingModel(selectedModel) ? ensureWebLLMEmbeddingModelLoaded : ensureWebLLMModelLoaded;
+      await ensureLoaded(selectedModel.id, (progress) => {
         setDownloadProgress(progress);
       });
 
@@ -195,6 +206,13 @@ export function useLLMSetup(): UseLLMSetupReturn {
     }
 
     try {
+      if (isEmbeddingModel(selectedModel)) {
+        await ensureWebLLMEmbeddingModelLoaded(selectedModel.id);
+        setLoadedEmbeddingModelId(selectedModel.id);
+        setLoadedEmbeddingModelIdState(selectedModel.id);
+        return;
+      }
+
       // Load model into WebLLM engine
       await ensureWebLLMModelLoaded(selectedModel.id);
 
@@ -271,8 +289,9 @@ export function useLLMSetup(): UseLLMSetupReturn {
           storageFreeGb: availableStorage,
         });
 
-        // Set currently loaded model
+        // Set currently loaded models
         setLoadedModelIdState(getLoadedModelId());
+        setLoadedEmbeddingModelIdState(getLoadedEmbeddingModelId());
       } catch (error) {
         console.error("Failed to initialize LLM setup:", error);
       }
@@ -300,6 +319,7 @@ export function useLLMSetup(): UseLLMSetupReturn {
     const handleModelLoaded = () => {
       if (!mounted) return;
       setLoadedModelIdState(getLoadedModelId());
+      setLoadedEmbeddingModelIdState(getLoadedEmbeddingModelId());
     };
 
     // Register event listeners
@@ -324,6 +344,7 @@ export function useLLMSetup(): UseLLMSetupReturn {
     selectedModelId,
     selectedModel,
     loadedModelId,
+    loadedEmbeddingModelId,
     suggestions,
 
     // State
@@ -0,0 +1,235 @@
+import { createHash, randomBytes, timingSafeEqual } from "node:crypto";
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from "node:fs";
+import path from "node:path";
+import type { z } from "zod";
+import type { ApiKeyResponse, JobPriority } from "@/types/api";
+import { getAuthConfig, type AuthConfig } from "./auth-config";
+import { getLimitsConfig, type LimitsConfig } from "./limits-config";
+import type { apiKeyScopeSchema } from "./schemas";
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  // Start of the key, so people can tell their keys apart
+  prefix: string;
+  // SHA-256 of the key; the key itself is only shown once, when issued
+  hash: string;
+  scopes: ApiKeyScope[];
+  // Overrides for this key; the configured defaults apply when unset
+  rateLimitPerMinute?: number;
+  tokenQuota?: number;
+  maxPriority?: JobPriority;
+  createdAt: number;
+  revokedAt?: number;
+}
+
+export interface ApiKeyLimits {
+  rateLimitPerMinute?: number;
+  tokenQuota?: number;
+  maxPriority?: JobPriority;
+}
+
+// Marks our keys in logs and secret scanners
+const KEY_PREFIX = "tvm_";
+const KEY_BYTES = 32;
+const VISIBLE_PREFIX_LENGTH = KEY_PREFIX.length + 6;
+const FILE_FORMAT_VERSION = 1;
+
+// Record standing in for API_ADMIN_KEY, which is never written to the store
+export const BOOTSTRAP_KEY_ID = "bootstrap-admin";
+
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Whether a key may call routes that need a scope. Admin keys may call
+ * anything.
+ */
+export function hasScope(record: ApiKeyRecord, scope: ApiKeyScope): boolean {
+  return record.scopes.includes(scope) || record.scopes.includes("admin");
+}
+
+/**
+ * Whether the key with this ID, as set by the middleware, has admin scope
+ */
+export function isAdminKeyId(id: string): boolean {
+  if (id === BOOTSTRAP_KEY_ID) return true;
+
+  const record = apiKeyStore.get(id);
+  return Boolean(record && hasScope(record, "admin"));
+}
+
+/**
+ * Highest scheduling class the key's jobs may use. Admin keys, and callers
+ * when auth is disabled, may use any.
+ */
+export function getMaxPriority(id: string | null, config: LimitsConfig = getLimitsConfig()): JobPriority {
+  if (!id || isAdminKeyId(id)) return "interactive";
+
+  return apiKeyStore.get(id)?.maxPriority ?? config.maxPriority;
+}
+
+export function toApiKeyResponse(record: ApiKeyRecord): ApiKeyResponse {
+  return {
+    id: record.id,
+    name: record.name,
+    prefix: record.prefix,
+    scopes: record.scopes,
+    rate_limit_per_minute: record.rateLimitPerMinute ?? null,
+    token_quota: record.tokenQuota ?? null,
+    max_priority: record.maxPriority ?? null,
+    created_at: record.createdAt,
+    revoked_at: record.revokedAt ?? null,
+  };
+}
+
+/**
+ * Issued API keys, stored hashed in a JSON file. The file is re-read when
+ * it changes, so every module instance that checks keys sees new and
+ * revoked keys.
+ */
+export class ApiKeyStore {
+  private readonly filePath: string;
+
+  private keys = new Map<string, ApiKeyRecord>();
+
+  private loadedVersion: number | null = null;
+
+  constructor(private readonly config: AuthConfig = getAuthConfig()) {
+    this.filePath = path.resolve(config.keysPath);
+  }
+
+  /**
+   * Creates a key
+   * @returns The plaintext key, which can't be recovered later, and its record
+   */
+  issue(name: string, scopes: ApiKeyScope[], limits: ApiKeyLimits = {}): { key: string; record: ApiKeyRecord } {
+    this.refresh();
+
+    const key = `${KEY_PREFIX}${randomBytes(KEY_BYTES).toString("base64url")}`;
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      name,
+      prefix: key.slice(0, VISIBLE_PREFIX_LENGTH),
+      hash: hashApiKey(key),
+      scopes: Array.from(new Set(scopes)),
+      ...limits,
+      createdAt: Date.now(),
+    };
+
+    this.keys.set(record.id, record);
+    this.persist();
+    return { key, record };
+  }
+
+  /**
+   * Looks up the record for a presented key
+   * @returns null when the key is unknown or revoked
+   */
+  verify(key: string): ApiKeyRecord | null {
+    const hash = Buffer.from(hashApiKey(key), "hex");
+
+    if (this.config.adminKey && hashesMatch(hash, hashApiKey(this.config.adminKey))) {
+      return {
+        id: BOOTSTRAP_KEY_ID,
+        name: "API_ADMIN_KEY",
+        prefix: this.config.adminKey.slice(0, VISIBLE_PREFIX_LENGTH),
+        hash: hashApiKey(this.config.adminKey),
+        scopes: ["admin"],
+        createdAt: 0,
+      };
+    }
+
+    this.refresh();
+    for (const record of this.keys.values()) {
+      if (!record.revokedAt && hashesMatch(hash, record.hash)) {
+        return record;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * @returns The stored record for a key ID, revoked or not
+   */
+  get(id: string): ApiKeyRecord | null {
+    this.refresh();
+    return this.keys.get(id) ?? null;
+  }
+
+  /**
+   * Lists issued keys, newest first, including revoked ones
+   */
+  list(): ApiKeyRecord[] {
+    this.refresh();
+    return Array.from(this.keys.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  /**
+   * Revokes a key. Revoking twice keeps the first revocation time.
+   * @returns The revoked record, or null when there is no such key
+   */
+  revoke(id: string): ApiKeyRecord | null {
+    this.refresh();
+
+    const record = this.keys.get(id);
+    if (!record) return null;
+
+    record.revokedAt ??= Date.now();
+    this.persist();
+    return record;
+  }
+
+  private refresh() {
+    let version: number;
+    try {
+      version = statSync(this.filePath).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read API key store ${this.filePath}`, error);
+      }
+      return;
+    }
+    if (version === this.loadedVersion) return;
+
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, "utf8")) as { version: number; keys: ApiKeyRecord[] };
+      if (parsed.version !== FILE_FORMAT_VERSION || !Array.isArray(parsed.keys)) {
+        console.warn(`Ignoring API key store ${this.filePath}: unsupported format`);
+        return;
+      }
+
+      this.keys = new Map(parsed.keys.map((record) => [record.id, record]));
+      this.loadedVersion = version;
+    } catch (error) {
+      console.error(`Failed to read API key store ${this.filePath}`, error);
+    }
+  }
+
+  // Keys change rarely, so writes are synchronous: a key works as soon as
+  // the call that issued it returns
+  private persist() {
+    const snapshot = JSON.stringify({ version: FILE_FORMAT_VERSION, keys: Array.from(this.keys.values()) }, null, 2);
+    const tempPath = `${this.filePath}.tmp`;
+
+    mkdirSync(path.dirname(this.filePath), { recursive: true });
+    writeFileSync(tempPath, snapshot, { mode: 0o600 });
+    renameSync(tempPath, this.filePath);
+    this.loadedVersion = statSync(this.filePath).mtimeMs;
+  }
+}
+
+function hashesMatch(hash: Buffer, storedHex: string): boolean {
+  const stored = Buffer.from(storedHex, "hex");
+  return stored.length === hash.length && timingSafeEqual(stored, hash);
+}
+
+// Global singleton for Next.js dev server hot reload persistence
+const globalForKeys = globalThis as unknown as { apiKeyStore: ApiKeyStore };
+
+export const apiKeyStore = globalForKeys.apiKeyStore || new ApiKeyStore();
+
+if (process.env.NODE_ENV !== "production") globalForKeys.apiKeyStore = apiKeyStore;
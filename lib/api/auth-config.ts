@@ -0,0 +1,28 @@
+// required: every API call needs a key. disabled: open, for local development.
+export type AuthMode = "required" | "disabled";
+
+export interface AuthConfig {
+  mode: AuthMode;
+  // Bootstrap admin key, used to issue the first stored keys
+  adminKey: string | null;
+  // Where issued keys are kept, hashed
+  keysPath: string;
+}
+
+const defaults: AuthConfig = {
+  mode: "required",
+  adminKey: null,
+  keysPath: ".data/api-keys.json",
+};
+
+function readMode(value: string | undefined): AuthMode {
+  return value === "disabled" ? "disabled" : defaults.mode;
+}
+
+export function getAuthConfig(): AuthConfig {
+  return {
+    mode: readMode(process.env.API_AUTH_MODE),
+    adminKey: process.env.API_ADMIN_KEY?.trim() || defaults.adminKey,
+    keysPath: process.env.API_KEYS_PATH ?? defaults.keysPath,
+  };
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import { apiKeyStore, hasScope, isAdminKeyId, type ApiKeyRecord, type ApiKeyScope } from "./api-keys";
+import { getAuthConfig } from "./auth-config";
+import { corsHeaders, fail } from "./response";
+
+// Set by the middleware on authenticated requests, so routes can tell
+// callers apart without checking the key again
+export const API_KEY_ID_HEADER = "x-api-key-id";
+
+// Scope each API path needs, null for public ones; the first match wins
+const ROUTE_SCOPES: Array<[RegExp, ApiKeyScope | null]> = [
+  [/^\/api\/v1\/openapi\.json$/, null],
+  [/^\/api\/v1\/worker(\/|$)/, "worker"],
+  [/^\/api\/v1\/keys(\/|$)/, "admin"],
+  [/^\/api\/v1\/queue(\/|$)/, "admin"],
+  [/^\/api\/v1\/debug(\/|$)/, "admin"],
+  [/^\/api\/v1\/jobs\/[^/]+\/promote$/, "admin"],
+  [/^\/api\/v1\/models\/(load|operations)(\/|$)/, "admin"],
+  [/^\/api\/v1(\/|$)/, "generate"],
+  [/^\/v1(\/|$)/, "generate"],
+  [/^\/api\/(generate|chat|tags)$/, "generate"],
+];
+
+export type AuthResult =
+  | { ok: true; key: ApiKeyRecord | null }
+  | { ok: false; status: 401 | 403; code: "UNAUTHORIZED" | "FORBIDDEN"; message: string };
+
+/**
+ * @returns The scope a path needs, or null for public paths and paths
+ * outside the API
+ */
+export function getRequiredScope(pathname: string): ApiKeyScope | null {
+  return ROUTE_SCOPES.find(([pattern]) => pattern.test(pathname))?.[1] ?? null;
+}
+
+export function readBearerToken(request: Request): string | null {
+  const header = request.headers.get("authorization");
+  const match = header?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Checks the request's bearer key against the scope its route needs.
+ * With auth disabled every request passes without a key.
+ */
+export function authenticate(request: Request, scope: ApiKeyScope): AuthResult {
+  if (getAuthConfig().mode === "disabled") {
+    return { ok: true, key: null };
+  }
+
+  const token = readBearerToken(request);
+  if (!token) {
+    return { ok: false, status: 401, code: "UNAUTHORIZED", message: "Missing API key: send Authorization: Bearer <key>" };
+  }
+
+  const key = apiKeyStore.verify(token);
+  if (!key) {
+    return { ok: false, status: 401, code: "UNAUTHORIZED", message: "Invalid or revoked API key" };
+  }
+
+  if (!hasScope(key, scope)) {
+    return { ok: false, status: 403, code: "FORBIDDEN", message: `This API key lacks the ${scope} scope` };
+  }
+
+  return { ok: true, key };
+}
+
+export interface Rejection {
+  status: number;
+  code: "UNAUTHORIZED" | "FORBIDDEN" | "RATE_LIMIT";
+  message: string;
+}
+
+// OpenAI error type and code for each rejection, as its SDKs expect them
+const OPENAI_REJECTIONS: Record<Rejection["code"], { type: string; code: string }> = {
+  UNAUTHORIZED: { type: "authentication_error", code: "invalid_api_key" },
+  FORBIDDEN: { type: "permission_error", code: "insufficient_scope" },
+  RATE_LIMIT: { type: "rate_limit_error", code: "rate_limit_exceeded" },
+};
+
+/**
+ * Rejection in the error shape the path's clients expect: OpenAI's under
+ * /v1, Ollama's for its routes, the API envelope elsewhere
+ */
+export function rejectionResponse(pathname: string, rejection: Rejection, headers: Record<string, string> = {}) {
+  const allHeaders = { ...corsHeaders, ...headers };
+
+  if (/^\/v1(\/|$)/.test(pathname)) {
+    return NextResponse.json(
+      { error: { message: rejection.message, ...OPENAI_REJECTIONS[rejection.code], param: null } },
+      { status: rejection.status, headers: allHeaders },
+    );
+  }
+
+  if (/^\/api\/(generate|chat|tags)$/.test(pathname)) {
+    return NextResponse.json({ error: rejection.message }, { status: rejection.status, headers: allHeaders });
+  }
+
+  return fail({ code: rejection.code, message: rejection.message }, rejection.status, allHeaders);
+}
+
+export function authErrorResponse(pathname: string, result: Extract<AuthResult, { ok: false }>) {
+  return rejectionResponse(
+    pathname,
+    result,
+    result.status === 401 ? { "WWW-Authenticate": 'Bearer realm="api"' } : {},
+  );
+}
+
+/**
+ * ID of the key the middleware accepted for this request, if any
+ */
+export function getApiKeyId(request: Request): string | null {
+  return request.headers.get(API_KEY_ID_HEADER);
+}
+
+/**
+ * Whether the caller may see every key's jobs and every worker: an admin
+ * key, or any caller when auth is disabled
+ */
+export function isAdminCaller(request: Request): boolean {
+  const id = getApiKeyId(request);
+  return !id || isAdminKeyId(id);
+}
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { API_KEY_ID_HEADER } from "./auth";
+import { ANONYMOUS_CLIENT_ID, getClientId, getClientIp } from "./client";
+
+function request(headers: Record<string, string> = {}) {
+  return new Request("http://localhost/api/v1/generate", { headers });
+}
+
+describe("getClientIp", () => {
+  const config = { trustedProxies: ["10.0.0.1", "192.168.0.0/16"] };
+
+  it("ignores forwarding headers when no proxy is trusted", () => {
+    expect(getClientIp(request({ "X-Forwarded-For": "1.2.3.4" }), { trustedProxies: [] })).toBeNull();
+  });
+
+  it("takes the right-most hop that isn't a trusted proxy", () => {
+    const headers = { "X-Forwarded-For": "6.6.6.6, 1.2.3.4, 192.168.4.2, 10.0.0.1" };
+
+    expect(getClientIp(request(headers), config)).toBe("1.2.3.4");
+  });
+
+  it("takes the first hop when every hop is trusted", () => {
+    expect(getClientIp(request({ "X-Forwarded-For": "192.168.1.1, 10.0.0.1" }), config)).toBe("192.168.1.1");
+    expect(getClientIp(request({ "X-Real-IP": "1.2.3.4" }), config)).toBe("1.2.3.4");
+  });
+});
+
+describe("getClientId", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("identifies callers by their API key first", () => {
+    expect(getClientId(request({ [API_KEY_ID_HEADER]: "key-1", "X-Forwarded-For": "1.2.3.4" }))).toBe("key-1");
+  });
+
+  it("can't tell keyless callers apart without trusted proxies", () => {
+    vi.stubEnv("TRUSTED_PROXIES", "");
+
+    const first = getClientId(request({ "X-Forwarded-For": "1.2.3.4" }));
+    const second = getClientId(request({ "X-Forwarded-For": "5.6.7.8" }));
+
+    expect(first).toBe(ANONYMOUS_CLIENT_ID);
+    expect(second).toBe(ANONYMOUS_CLIENT_ID);
+  });
+});
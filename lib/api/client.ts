@@ -0,0 +1,65 @@
+import { getApiKeyId } from "./auth";
+import { getLimitsConfig, type LimitsConfig } from "./limits-config";
+
+// Client ID for callers with neither an API key nor a known IP
+export const ANONYMOUS_CLIENT_ID = "anonymous";
+
+/**
+ * Identifies the caller for fair scheduling: the API key the middleware
+ * accepted, or the client IP when auth is disabled. Nothing the caller
+ * sends can pick it, so a caller can't split itself into many clients.
+ * With neither, every caller is the one anonymous client and fairness
+ * between them is lost; that is the price of not trusting headers.
+ */
+export function getClientId(request: Request): string {
+  return getApiKeyId(request) ?? getClientIp(request) ?? ANONYMOUS_CLIENT_ID;
+}
+
+/**
+ * The caller's address as reported by a trusted proxy. Each proxy appends
+ * the address it received the request from to X-Forwarded-For, so the
+ * right-most hop that isn't one of our proxies is the client; anything
+ * left of it was written by the client and could be anything. Without
+ * trusted proxies the headers are ignored, and since the runtime doesn't
+ * expose the socket address, the IP is unknown.
+ */
+export function getClientIp(request: Request, config: Pick<LimitsConfig, "trustedProxies"> = getLimitsConfig()): string | null {
+  if (config.trustedProxies.length === 0) return null;
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((hop) => hop.trim())
+    .filter(Boolean);
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!isTrustedProxy(hops[i], config.trustedProxies)) {
+      return hops[i];
+    }
+  }
+
+  // Every hop was one of our proxies; the first one is nearest the client
+  return hops[0] ?? request.headers.get("x-real-ip")?.trim() ?? null;
+}
+
+function isTrustedProxy(address: string, trustedProxies: string[]): boolean {
+  return trustedProxies.some((entry) => {
+    const [range, bits] = entry.split("/");
+    if (bits === undefined) return entry === address;
+
+    const start = parseIpv4(range);
+    const value = parseIpv4(address);
+    const prefix = Number(bits);
+    if (start === null || value === null || !Number.isInteger(prefix) || prefix < 0 || prefix > 32) return false;
+
+    // >>> 0 keeps the mask unsigned; a /0 mask covers every address
+    const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+    return ((start & mask) >>> 0) === ((value & mask) >>> 0);
+  });
+}
+
+function parseIpv4(address: string): number | null {
+  const parts = address.split(".");
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+}
@@ -0,0 +1,101 @@
+import type { DebugLogEntry, DebugLogLevel, DebugTrace, ProfileMetric } from "@/types/api";
+import type { Trace } from "@/lib/debug/debugger";
+import { LogLevel, type LogEntry } from "@/lib/debug/logger";
+import type { Aggregation } from "@/lib/monitoring/metrics-collector";
+import { getTraceStartedAt, instrumentation, matchesLogQuery, type LogQuery } from "@/lib/monitoring/registry";
+import { sseEvent } from "./stream";
+
+const LOG_LEVELS: Record<DebugLogLevel, LogLevel> = {
+  debug: LogLevel.DEBUG,
+  info: LogLevel.INFO,
+  warn: LogLevel.WARN,
+  error: LogLevel.ERROR,
+};
+
+const PROFILE_AGGREGATIONS = ["count", "avg", "min", "max", "p50", "p95", "p99"] as const satisfies readonly Aggregation[];
+
+export function toLogLevel(level: DebugLogLevel): LogLevel {
+  return LOG_LEVELS[level];
+}
+
+export function toDebugLogEntry(entry: LogEntry): DebugLogEntry {
+  return {
+    level: LogLevel[entry.level].toLowerCase() as DebugLogLevel,
+    service: entry.service,
+    message: entry.message,
+    ...(entry.data !== undefined ? { data: entry.data } : {}),
+    timestamp: entry.timestamp,
+    ...(entry.stack ? { stack: entry.stack } : {}),
+  };
+}
+
+export function toDebugTrace(trace: Trace): DebugTrace {
+  return {
+    id: trace.id,
+    service: trace.service,
+    operation: trace.operation,
+    started_at: getTraceStartedAt(trace),
+    duration_ms: Math.round((trace.duration ?? 0) * 100) / 100,
+    metadata: trace.metadata,
+    ...(trace.result !== undefined ? { result: trace.result } : {}),
+  };
+}
+
+/**
+ * Aggregations of every metric, or the ones matching the filters, with up
+ * to `limit` of each metric's most recent values
+ */
+export function buildProfile(filter: { service?: string; metric?: string; since?: number }, limit: number): ProfileMetric[] {
+  const since = filter.since ?? 0;
+
+  return instrumentation.getCollectors(filter.service).flatMap(([service, collector]) =>
+    collector
+      .getNames()
+      .filter((name) => filter.metric === undefined || name === filter.metric)
+      .map((name) => ({
+        service,
+        name,
+        values: lastValues(collector.getMetrics(name).filter((metric) => metric.timestamp >= since), limit)
+          .map((metric) => ({
+            value: metric.value,
+            timestamp: metric.timestamp,
+            ...(Object.keys(metric.tags).length > 0 ? { tags: metric.tags } : {}),
+          })),
+        aggregations: Object.fromEntries(
+          PROFILE_AGGREGATIONS.map((aggregation) => [aggregation, collector.aggregate(name, aggregation, since)]),
+        ) as ProfileMetric["aggregations"],
+      }))
+      .filter((metric) => metric.aggregations.count > 0),
+  );
+}
+
+function lastValues<T>(values: T[], limit: number): T[] {
+  return values.slice(Math.max(0, values.length - limit));
+}
+
+/**
+ * Server-sent events with the matching log entries already kept, then
+ * each new one as it is written, until the caller hangs up
+ * @param backlog - Entries to replay first, oldest first
+ */
+export function createLogTailStream(query: LogQuery, backlog: LogEntry[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const entry of backlog) {
+        controller.enqueue(encoder.encode(sseEvent(toDebugLogEntry(entry))));
+      }
+
+      unsubscribe = instrumentation.subscribeLogs((entry) => {
+        if (matchesLogQuery(entry, query)) {
+          controller.enqueue(encoder.encode(sseEvent(toDebugLogEntry(entry))));
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+}
@@ -0,0 +1,37 @@
+import type { EmbeddingResponse } from "@/types/api";
+import type { EmbeddingRequest, GenerateRequest } from "./schemas";
+
+// Anything the queue can hand a worker
+export type JobRequest = GenerateRequest | EmbeddingRequest;
+
+export function isEmbeddingRequest(request: JobRequest): request is EmbeddingRequest {
+  return "input" in request;
+}
+
+/**
+ * The texts to embed, in the order the vectors come back
+ */
+export function getEmbeddingInputs(request: EmbeddingRequest): string[] {
+  return typeof request.input === "string" ? [request.input] : request.input;
+}
+
+/**
+ * Shapes a raw worker result into the public embeddings response
+ * @param result - Result payload posted by the browser worker
+ * @param startedAt - When the request was accepted
+ * @param finishedAt - When the worker reported back
+ */
+export function buildEmbeddingResponse(result: any, startedAt: number, finishedAt = Date.now()): EmbeddingResponse {
+  const embeddings: number[][] = Array.isArray(result?.embeddings) ? result.embeddings : [];
+  const usage = result?.usage || { prompt_tokens: 0, total_tokens: 0 };
+
+  return {
+    model: typeof result?.model === "string" ? result.model : "",
+    embeddings,
+    dimensions: embeddings[0]?.length ?? 0,
+    usage,
+    performance: {
+      latency_ms: finishedAt - startedAt,
+    },
+  };
+}
@@ -0,0 +1,96 @@
+import type { GenerateResponse, JsonOutputCheck, ToolCall } from "@/types/api";
+import { validateJsonSchema, type JsonSchema } from "./json-schema";
+import type { GenerateMessage, GenerateRequest } from "./schemas";
+
+const FINISH_REASONS = ["stop", "length", "stop_sequence", "tool_calls", "cancelled", "error"] as const;
+
+/**
+ * Shapes a raw worker result into the public generate response
+ * @param result - Result payload posted by the browser worker
+ * @param request - Request the job ran, used to check JSON output
+ * @param startedAt - When the request was accepted
+ * @param finishedAt - When the worker reported back
+ */
+export function buildGenerateResponse(
+  result: any,
+  request: GenerateRequest,
+  startedAt: number,
+  finishedAt = Date.now(),
+): GenerateResponse {
+  const text = typeof result === "string" ? result : result?.text || "";
+  const perf = result?.performance || {};
+  const toolCalls: ToolCall[] | undefined = Array.isArray(result?.tool_calls) && result.tool_calls.length > 0
+    ? result.tool_calls
+    : undefined;
+  const usage = result?.usage || {
+    prompt_tokens: 0,
+    completion_tokens: 0,
+    total_tokens: 0,
+  };
+
+  const finishReason = toolCalls ? "tool_calls" : toFinishReason(result?.finish_reason);
+
+  return {
+    text,
+    tokens: usage.completion_tokens,
+    finish_reason: finishReason,
+    ...(finishReason === "stop_sequence" && typeof result?.stop_sequence === "string"
+      ? { stop_sequence: result.stop_sequence }
+      : {}),
+    usage,
+    performance: {
+      tokens_per_second: perf.tokens_per_second || 0,
+      time_to_first_token_ms: perf.time_to_first_token_ms ?? null,
+      latency_ms: finishedAt - startedAt,
+      total_time_ms: finishedAt - startedAt,
+    },
+    ...(wantsJson(request) ? { json: checkJsonOutput(text, request.json_schema) } : {}),
+    ...(toolCalls ? { tool_calls: toolCalls } : {}),
+  };
+}
+
+/**
+ * The finish reason the worker reported, or "stop" for workers that don't
+ * report one
+ */
+function toFinishReason(reason: unknown): GenerateResponse["finish_reason"] {
+  return typeof reason === "string" && (FINISH_REASONS as readonly string[]).includes(reason)
+    ? reason as GenerateResponse["finish_reason"]
+    : "stop";
+}
+
+export function wantsJson(request: GenerateRequest) {
+  return Boolean(request.json_mode || request.json_schema);
+}
+
+/**
+ * Parses JSON-mode output and checks it against the requested schema.
+ * Decoding is grammar-constrained, so failures mostly come from output cut
+ * short by max_tokens or a cancellation.
+ */
+export function checkJsonOutput(text: string, schema?: JsonSchema): JsonOutputCheck {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return {
+      parsed: false,
+      schema_valid: schema ? false : null,
+      errors: [`Output is not valid JSON: ${error instanceof Error ? error.message : String(error)}`],
+    };
+  }
+
+  if (!schema) {
+    return { parsed: true, schema_valid: null, errors: [] };
+  }
+
+  const errors = validateJsonSchema(value, schema);
+  return { parsed: true, schema_valid: errors.length === 0, errors };
+}
+
+/**
+ * The conversation to hand the engine; a bare prompt is one user turn
+ */
+export function getRequestMessages(request: GenerateRequest): GenerateMessage[] {
+  return request.messages ?? [{ role: "user", content: request.prompt ?? "" }];
+}
@@ -0,0 +1,112 @@
+import { mkdirSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { Job } from "./queue";
+import type { QueueConfig } from "./queue-config";
+
+// Batches bursts of updates (e.g. streamed chunks) into one write
+const FILE_WRITE_DEBOUNCE_MS = 250;
+const FILE_FORMAT_VERSION = 1;
+
+/**
+ * Persistence behind InternalQueue. The queue keeps its own in-memory view
+ * and tells the store about every change; load() is only called on boot.
+ */
+export interface JobStore {
+  load(): Job[];
+  save(job: Job): void;
+  delete(id: string): void;
+}
+
+/**
+ * Keeps nothing across restarts
+ */
+export class MemoryJobStore implements JobStore {
+  load(): Job[] {
+    return [];
+  }
+
+  save() { }
+
+  delete() { }
+}
+
+/**
+ * Snapshots all jobs to a JSON file. Writes go to a temp file first and are
+ * renamed into place, so a crash mid-write leaves the previous snapshot.
+ */
+export class FileJobStore implements JobStore {
+  private readonly filePath: string;
+
+  private readonly jobs = new Map<string, Job>();
+
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  load(): Job[] {
+    try {
+      const raw = readFileSync(this.filePath, "utf8");
+      const parsed = JSON.parse(raw) as { version: number; jobs: Job[] };
+      if (parsed.version !== FILE_FORMAT_VERSION || !Array.isArray(parsed.jobs)) {
+        console.warn(`Ignoring job store ${this.filePath}: unsupported format`);
+        return [];
+      }
+
+      for (const job of parsed.jobs) {
+        this.jobs.set(job.id, job);
+      }
+      return parsed.jobs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read job store ${this.filePath}`, error);
+      }
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+      return [];
+    }
+  }
+
+  save(job: Job) {
+    this.jobs.set(job.id, job);
+    this.scheduleWrite();
+  }
+
+  delete(id: string) {
+    if (this.jobs.delete(id)) {
+      this.scheduleWrite();
+    }
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.write());
+    }, FILE_WRITE_DEBOUNCE_MS);
+  }
+
+  private async write() {
+    const payload = JSON.stringify({ version: FILE_FORMAT_VERSION, jobs: Array.from(this.jobs.values()) });
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, payload, "utf8");
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write job store ${this.filePath}`, error);
+    }
+  }
+}
+
+export function createJobStore(config: QueueConfig): JobStore {
+  if (config.store === "file") {
+    return new FileJobStore(config.storePath);
+  }
+  return new MemoryJobStore();
+}
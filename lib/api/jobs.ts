@@ -0,0 +1,159 @@
+import type { JobResponse } from "@/types/api";
+import { getApiKeyId, isAdminCaller } from "./auth";
+import { buildEmbeddingResponse, isEmbeddingRequest } from "./embeddings";
+import { buildGenerateResponse } from "./generation";
+import { fail } from "./response";
+import { jobQueue, QueueError, type Job } from "./queue";
+
+export function toJobResponse(job: Job): JobResponse {
+  const position = jobQueue.getQueuePosition(job.id);
+  const request = job.request;
+
+  return {
+    id: job.id,
+    status: job.status,
+    priority: job.priority,
+    client_id: job.clientId,
+    created_at: job.timestamp,
+    started_at: job.startedAt ?? null,
+    finished_at: job.finishedAt ?? null,
+    expires_at: job.expiresAt,
+    attempts: job.attempts,
+    queue_position: position,
+    estimated_wait_ms: position === null ? null : jobQueue.estimateWaitMs(position),
+    // Cancelled and failed jobs carry whatever the worker produced before it stopped
+    result: job.result === undefined
+      ? null
+      : isEmbeddingRequest(request)
+        ? buildEmbeddingResponse(job.result, job.timestamp, job.finishedAt)
+        : buildGenerateResponse(job.result, request, job.timestamp, job.finishedAt),
+    error: job.error ?? null,
+    error_code: job.errorCode ?? null,
+  };
+}
+
+/**
+ * Keys see only the jobs they submitted; admin keys, and anyone when auth
+ * is disabled, see every job
+ * @returns The key to limit the caller to, or null for no limit
+ */
+export function getJobOwnerId(request: Request): string | null {
+  return isAdminCaller(request) ? null : getApiKeyId(request);
+}
+
+/**
+ * The job, unless it is unknown or belongs to another key; callers treat
+ * both the same so job IDs don't leak between keys
+ */
+export function getOwnedJob(request: Request, id: string): Job | null {
+  const job = jobQueue.getJob(id);
+  const ownerId = getJobOwnerId(request);
+
+  return job && (ownerId === null || job.apiKeyId === ownerId) ? job : null;
+}
+
+export function jobNotFoundResponse(headers: Record<string, string> = {}) {
+  return fail({ code: "JOB_NOT_FOUND", message: "Job not found or past its retention window" }, 404, headers);
+}
+
+export function workerForbiddenResponse() {
+  return fail({ code: "FORBIDDEN", message: "Worker is registered to another API key" }, 403);
+}
+
+/**
+ * Cancels a job when the caller that is waiting for it goes away
+ * @returns Function that stops watching the signal
+ */
+export function cancelJobOnAbort(signal: AbortSignal, jobId: string): () => void {
+  const onAbort = () => {
+    try {
+      jobQueue.cancelJob(jobId);
+    } catch (error) {
+      // Already finished, nothing to stop
+      if (!(error instanceof QueueError)) throw error;
+    }
+  };
+
+  signal.addEventListener("abort", onAbort);
+  return () => signal.removeEventListener("abort", onAbort);
+}
+
+/**
+ * Where an accepted job stands in line, for the caller to show or log
+ */
+export function admissionHeaders(job: Job): Record<string, string> {
+  const position = jobQueue.getQueuePosition(job.id) ?? 0;
+
+  return {
+    "X-Queue-Position": String(position),
+    "X-Queue-Estimated-Wait-Ms": String(position === 0 ? 0 : jobQueue.estimateWaitMs(position)),
+  };
+}
+
+/**
+ * Model to ask the worker for on a compatible route. Stock clients send
+ * whatever model name they were set up with, so a name no worker has runs
+ * on the loaded model instead of failing.
+ */
+export function toWorkerModel(model: string | undefined): string | undefined {
+  return model && jobQueue.hasModel(model) ? model : undefined;
+}
+
+const queueErrorStatusByCode: Record<string, number> = {
+  WORKER_UNAVAILABLE: 503,
+  QUEUE_FULL: 429,
+  QUOTA_EXCEEDED: 429,
+  JOB_NOT_FOUND: 404,
+  JOB_NOT_CANCELLABLE: 409,
+  JOB_NOT_QUEUED: 409,
+  MODEL_NOT_AVAILABLE: 404,
+  MODEL_OPERATION_IN_PROGRESS: 409,
+  MODEL_OPERATION_NOT_FOUND: 404,
+};
+
+/**
+ * HTTP status for a QueueError: 429 when the queue is at its depth limit,
+ * 503 when the wait would be too long
+ */
+export function queueErrorStatus(error: QueueError): number {
+  return error.code === "QUEUE_FULL" && error.details?.reason === "max_wait"
+    ? 503
+    : queueErrorStatusByCode[error.code] ?? 500;
+}
+
+export function retryAfterHeaders(error: QueueError): Record<string, string> {
+  return error.retryAfterMs !== undefined
+    ? { "Retry-After": String(Math.max(1, Math.ceil(error.retryAfterMs / 1000))) }
+    : {};
+}
+
+/**
+ * Answer for a generate call whose job did not succeed. A request the
+ * worker's engine refused is the caller's fault and gets a 400.
+ */
+export function generationErrorResponse(error: unknown, headers: Record<string, string> = {}) {
+  if (error instanceof QueueError && error.code === "INVALID_REQUEST") {
+    return fail({ code: "VALIDATION_ERROR", message: error.message }, 400, headers);
+  }
+
+  return fail(
+    {
+      code: "GENERATION_ERROR",
+      message: error instanceof Error ? error.message : "Failed to generate text or worker disconnected",
+    },
+    500,
+    headers
+  );
+}
+
+/**
+ * Maps a QueueError onto the API error envelope. Admission failures carry
+ * Retry-After.
+ */
+export function queueErrorResponse(error: QueueError, headers: Record<string, string> = {}) {
+  return fail(
+    { code: error.code, message: error.message, details: error.details },
+    queueErrorStatus(error),
+    { ...headers, ...retryAfterHeaders(error) },
+  );
+}
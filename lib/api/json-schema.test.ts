@@ -0,0 +1,158 @@
+import { describe, expect, it } from "vitest";
+import { findSchemaKeyword, validateJsonSchema, type JsonSchema } from "./json-schema";
+
+const person: JsonSchema = {
+  type: "object",
+  properties: {
+    name: { type: "string", minLength: 1, maxLength: 20 },
+    age: { type: "integer", minimum: 0, exclusiveMaximum: 150 },
+    tags: { type: "array", items: { type: "string" }, maxItems: 2 },
+  },
+  required: ["name", "age"],
+  additionalProperties: false,
+};
+
+describe("validateJsonSchema", () => {
+  it("accepts a value that matches", () => {
+    expect(validateJsonSchema({ name: "Ada", age: 36, tags: ["math"] }, person)).toEqual([]);
+  });
+
+  it("reports each violation with its path", () => {
+    expect(validateJsonSchema({ name: "", age: 150, tags: ["a", "b", 3], extra: true }, person)).toEqual([
+      "$.name: must be at least 1 characters",
+      "$.age: must be < 150",
+      "$.tags: must have at most 2 items",
+      "$.tags[2]: expected string, got integer",
+      '$: unexpected property "extra"',
+    ]);
+  });
+
+  it("reports missing required properties", () => {
+    expect(validateJsonSchema({ name: "Ada" }, person)).toEqual(['$: missing required property "age"']);
+  });
+
+  it("doesn't take inherited properties for required ones", () => {
+    const schema = { type: "object", required: ["toString", "constructor"] };
+
+    expect(validateJsonSchema({}, schema)).toEqual([
+      '$: missing required property "toString"',
+      '$: missing required property "constructor"',
+    ]);
+  });
+
+  it("doesn't take inherited properties for declared ones", () => {
+    const schema = { type: "object", properties: {}, additionalProperties: false };
+
+    expect(validateJsonSchema({ constructor: 1 }, schema)).toEqual(['$: unexpected property "constructor"']);
+  });
+
+  it("stops at a type mismatch", () => {
+    expect(validateJsonSchema("Ada", person)).toEqual(["$: expected object, got string"]);
+    expect(validateJsonSchema(1.5, { type: "integer" })).toEqual(["$: expected integer, got number"]);
+    expect(validateJsonSchema(null, { type: ["string", "null"] })).toEqual([]);
+  });
+
+  it("checks enum and const by value", () => {
+    expect(validateJsonSchema({ a: [1] }, { enum: [{ a: [1] }, "b"] })).toEqual([]);
+    expect(validateJsonSchema("c", { enum: ["a", "b"] })).toEqual(['$: must be one of "a", "b"']);
+    expect(validateJsonSchema(2, { const: 1 })).toEqual(["$: must equal 1"]);
+  });
+
+  it("checks multipleOf despite floating point error", () => {
+    expect(validateJsonSchema(0.3, { multipleOf: 0.1 })).toEqual([]);
+    expect(validateJsonSchema(0.35, { multipleOf: 0.1 })).toEqual(["$: must be a multiple of 0.1"]);
+  });
+
+  it("checks tuples with prefixItems", () => {
+    const schema = { type: "array", prefixItems: [{ type: "string" }, { type: "number" }], items: false };
+
+    expect(validateJsonSchema(["a", 1], schema)).toEqual([]);
+    expect(validateJsonSchema([1, 1, true], schema)).toEqual([
+      "$[0]: expected string, got integer",
+      "$[2]: no value is allowed here",
+    ]);
+  });
+
+  it("checks anyOf, oneOf, allOf and not", () => {
+    const anyOf = { anyOf: [{ type: "string" }, { type: "integer" }] };
+    expect(validateJsonSchema(1, anyOf)).toEqual([]);
+    expect(validateJsonSchema(true, anyOf)).toEqual(["$: does not match any allowed schema"]);
+
+    const oneOf = { oneOf: [{ type: "number" }, { type: "integer" }] };
+    expect(validateJsonSchema(1.5, oneOf)).toEqual([]);
+    expect(validateJsonSchema(1, oneOf)).toEqual(["$: must match exactly one schema, matched 2"]);
+
+    expect(validateJsonSchema(5, { allOf: [{ minimum: 1 }, { maximum: 3 }] })).toEqual(["$: must be <= 3"]);
+    expect(validateJsonSchema("x", { not: { type: "string" } })).toEqual(["$: matches a schema it must not match"]);
+  });
+
+  it("follows local $refs", () => {
+    const schema = {
+      type: "object",
+      properties: { child: { $ref: "#/$defs/node" } },
+      $defs: { node: { type: "object", properties: { child: { $ref: "#/$defs/node" } }, required: ["id"] } },
+    };
+
+    expect(validateJsonSchema({ child: { id: 1, child: { id: 2 } } }, schema)).toEqual([]);
+    expect(validateJsonSchema({ child: { id: 1, child: {} } }, schema)).toEqual([
+      '$.child.child: missing required property "id"',
+    ]);
+  });
+
+  it("reports refs it can't resolve, including inherited names", () => {
+    expect(validateJsonSchema(1, { $ref: "#/$defs/missing" })).toEqual(["$: cannot resolve #/$defs/missing"]);
+    expect(validateJsonSchema(1, { $ref: "#/constructor" })).toEqual(["$: cannot resolve #/constructor"]);
+    expect(validateJsonSchema(1, { $ref: "https://example.com/schema" })).toEqual([
+      "$: cannot resolve https://example.com/schema",
+    ]);
+  });
+
+  it("gives up on schemas that refer to themselves forever", () => {
+    const errors = validateJsonSchema(1, { $defs: { loop: { $ref: "#/$defs/loop" } }, $ref: "#/$defs/loop" });
+
+    expect(errors).toEqual(["$: schema nests too deeply"]);
+  });
+
+  it("never runs a schema's pattern", () => {
+    // Would backtrack for a very long time if it were run
+    const schema = { type: "string", pattern: "^(a+)+$" };
+
+    expect(validateJsonSchema(`${"a".repeat(40)}!`, schema)).toEqual([]);
+  });
+
+  it("treats true as anything and false as nothing", () => {
+    expect(validateJsonSchema({ a: 1 }, { type: "object", properties: { a: true } })).toEqual([]);
+    expect(validateJsonSchema({ a: 1 }, { type: "object", properties: { a: false } })).toEqual([
+      "$.a: no value is allowed here",
+    ]);
+  });
+});
+
+describe("findSchemaKeyword", () => {
+  it("finds a keyword in nested subschemas", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        codes: { type: "array", items: { anyOf: [{ type: "integer" }, { type: "string", pattern: "^[A-Z]+$" }] } },
+      },
+    };
+
+    expect(findSchemaKeyword(schema, "pattern")).toBe("properties.codes.items.anyOf[1]");
+  });
+
+  it("looks in definitions and at the root", () => {
+    expect(findSchemaKeyword({ pattern: "x" }, "pattern")).toBe("(root)");
+    expect(findSchemaKeyword({ $defs: { code: { pattern: "x" } } }, "pattern")).toBe("$defs.code");
+  });
+
+  it("ignores properties that share the keyword's name", () => {
+    const schema = { type: "object", properties: { pattern: { type: "string" } }, required: ["pattern"] };
+
+    expect(findSchemaKeyword(schema, "pattern")).toBeNull();
+  });
+
+  it("ignores values that aren't schemas", () => {
+    expect(findSchemaKeyword(undefined, "pattern")).toBeNull();
+    expect(findSchemaKeyword({ enum: [{ pattern: "x" }], const: { pattern: "x" } }, "pattern")).toBeNull();
+  });
+});
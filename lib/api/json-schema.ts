@@ -0,0 +1,287 @@
+export type JsonSchema = Record<string, unknown>;
+
+// Guards against schemas whose $refs point back at themselves forever
+const MAX_DEPTH = 64;
+
+/**
+ * Checks a value against a JSON Schema.
+ * Covers the keywords structured-output schemas use: type, enum, const,
+ * properties, required, additionalProperties, items, prefixItems,
+ * min/maxItems, min/maxLength, minimum, maximum, exclusive bounds,
+ * multipleOf, anyOf, oneOf, allOf, not and local $refs (#/$defs/...,
+ * #/definitions/...). Other keywords are ignored, pattern included: a
+ * caller's regular expression could backtrack long enough to stall the
+ * server.
+ * @returns One message per violation, empty when the value is valid
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema): string[] {
+  const errors: string[] = [];
+  validateNode(value, schema, schema, "$", errors, 0);
+  return errors;
+}
+
+function validateNode(
+  value: unknown,
+  schema: unknown,
+  root: JsonSchema,
+  path: string,
+  errors: string[],
+  depth: number,
+) {
+  if (schema === true || schema === undefined) return;
+  if (schema === false) {
+    errors.push(`${path}: no value is allowed here`);
+    return;
+  }
+  if (!isObject(schema)) return;
+
+  if (depth > MAX_DEPTH) {
+    errors.push(`${path}: schema nests too deeply`);
+    return;
+  }
+
+  if (typeof schema.$ref === "string") {
+    const target = resolveRef(root, schema.$ref);
+    if (target === undefined) {
+      errors.push(`${path}: cannot resolve ${schema.$ref}`);
+    } else {
+      validateNode(value, target, root, path, errors, depth + 1);
+    }
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(" or ")}, got ${describeType(value)}`);
+      return;
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`);
+  }
+
+  if ("const" in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") validateString(value, schema, path, errors);
+  if (typeof value === "number") validateNumber(value, schema, path, errors);
+  if (Array.isArray(value)) validateArray(value, schema, root, path, errors, depth);
+  if (isObject(value)) validateObject(value, schema, root, path, errors, depth);
+
+  validateCombinators(value, schema, root, path, errors, depth);
+}
+
+function validateString(value: string, schema: Record<string, unknown>, path: string, errors: string[]) {
+  if (typeof schema.minLength === "number" && value.length < schema.minLength) {
+    errors.push(`${path}: must be at least ${schema.minLength} characters`);
+  }
+  if (typeof schema.maxLength === "number" && value.length > schema.maxLength) {
+    errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+  }
+}
+
+function validateNumber(value: number, schema: Record<string, unknown>, path: string, errors: string[]) {
+  if (typeof schema.minimum === "number" && value < schema.minimum) {
+    errors.push(`${path}: must be >= ${schema.minimum}`);
+  }
+  if (typeof schema.maximum === "number" && value > schema.maximum) {
+    errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+  if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) {
+    errors.push(`${path}: must be > ${schema.exclusiveMinimum}`);
+  }
+  if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) {
+    errors.push(`${path}: must be < ${schema.exclusiveMaximum}`);
+  }
+  if (typeof schema.multipleOf === "number" && schema.multipleOf > 0) {
+    const quotient = value / schema.multipleOf;
+    if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+      errors.push(`${path}: must be a multiple of ${schema.multipleOf}`);
+    }
+  }
+}
+
+function validateArray(
+  value: unknown[],
+  schema: Record<string, unknown>,
+  root: JsonSchema,
+  path: string,
+  errors: string[],
+  depth: number,
+) {
+  if (typeof schema.minItems === "number" && value.length < schema.minItems) {
+    errors.push(`${path}: must have at least ${schema.minItems} items`);
+  }
+  if (typeof schema.maxItems === "number" && value.length > schema.maxItems) {
+    errors.push(`${path}: must have at most ${schema.maxItems} items`);
+  }
+
+  const prefixItems = Array.isArray(schema.prefixItems) ? schema.prefixItems : [];
+  value.forEach((item, index) => {
+    const itemSchema = index < prefixItems.length ? prefixItems[index] : schema.items;
+    validateNode(item, itemSchema, root, `${path}[${index}]`, errors, depth + 1);
+  });
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: Record<string, unknown>,
+  root: JsonSchema,
+  path: string,
+  errors: string[],
+  depth: number,
+) {
+  const properties = isObject(schema.properties) ? schema.properties : {};
+
+  if (Array.isArray(schema.required)) {
+    for (const key of schema.required) {
+      if (typeof key === "string" && !Object.hasOwn(value, key)) {
+        errors.push(`${path}: missing required property "${key}"`);
+      }
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertyPath = `${path}.${key}`;
+    if (Object.hasOwn(properties, key)) {
+      validateNode(propertyValue, properties[key], root, propertyPath, errors, depth + 1);
+    } else if (schema.additionalProperties === false) {
+      errors.push(`${path}: unexpected property "${key}"`);
+    } else if (isObject(schema.additionalProperties)) {
+      validateNode(propertyValue, schema.additionalProperties, root, propertyPath, errors, depth + 1);
+    }
+  }
+}
+
+function validateCombinators(
+  value: unknown,
+  schema: Record<string, unknown>,
+  root: JsonSchema,
+  path: string,
+  errors: string[],
+  depth: number,
+) {
+  const matches = (subschema: unknown) => {
+    const subErrors: string[] = [];
+    validateNode(value, subschema, root, path, subErrors, depth + 1);
+    return subErrors.length === 0;
+  };
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf) {
+      validateNode(value, subschema, root, path, errors, depth + 1);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) && !schema.anyOf.some(matches)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const matched = schema.oneOf.filter(matches).length;
+    if (matched !== 1) {
+      errors.push(`${path}: must match exactly one schema, matched ${matched}`);
+    }
+  }
+
+  if (schema.not !== undefined && matches(schema.not)) {
+    errors.push(`${path}: matches a schema it must not match`);
+  }
+}
+
+// Keywords whose value is a subschema, or a list or map of them
+const SUBSCHEMA_KEYWORDS = ["items", "additionalProperties", "not"];
+const SUBSCHEMA_LIST_KEYWORDS = ["prefixItems", "anyOf", "oneOf", "allOf"];
+const SUBSCHEMA_MAP_KEYWORDS = ["properties", "patternProperties", "$defs", "definitions"];
+
+/**
+ * Finds where a schema uses a keyword, looking only where keywords can be,
+ * so a property that happens to share the keyword's name doesn't count
+ * @returns Path to the first schema using it, e.g. "properties.code", or
+ * null when none does
+ */
+export function findSchemaKeyword(schema: unknown, keyword: string, path = "", depth = 0): string | null {
+  if (!isObject(schema) || depth > MAX_DEPTH) return null;
+  if (Object.hasOwn(schema, keyword)) return path || "(root)";
+
+  const join = (segment: string) => (path ? `${path}.${segment}` : segment);
+
+  for (const name of SUBSCHEMA_KEYWORDS) {
+    const found = findSchemaKeyword(schema[name], keyword, join(name), depth + 1);
+    if (found) return found;
+  }
+  for (const name of SUBSCHEMA_LIST_KEYWORDS) {
+    const list = schema[name];
+    if (!Array.isArray(list)) continue;
+    for (const [index, subschema] of list.entries()) {
+      const found = findSchemaKeyword(subschema, keyword, join(`${name}[${index}]`), depth + 1);
+      if (found) return found;
+    }
+  }
+  for (const name of SUBSCHEMA_MAP_KEYWORDS) {
+    const map = schema[name];
+    if (!isObject(map)) continue;
+    for (const [key, subschema] of Object.entries(map)) {
+      const found = findSchemaKeyword(subschema, keyword, join(`${name}.${key}`), depth + 1);
+      if (found) return found;
+    }
+  }
+  return null;
+}
+
+function resolveRef(root: JsonSchema, ref: string): unknown {
+  if (ref === "#") return root;
+  if (!ref.startsWith("#/")) return undefined;
+
+  return ref
+    .slice(2)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce<unknown>((node, segment) => (isObject(node) && Object.hasOwn(node, segment) ? node[segment] : undefined), root);
+}
+
+function matchesType(value: unknown, type: unknown): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "boolean":
+      return typeof value === "boolean";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "integer":
+      return typeof value === "number" && Number.isInteger(value);
+    case "string":
+      return typeof value === "string";
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  const keysB = Object.keys(b);
+  if (keysA.length !== keysB.length) return false;
+
+  return keysA.every((key) => deepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
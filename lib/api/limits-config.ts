@@ -0,0 +1,68 @@
+import type { JobPriority } from "@/types/api";
+
+export type QuotaPeriod = "day" | "month";
+
+export interface LimitsConfig {
+  // Requests per minute for each API key, by kind of route. 0 turns a limit off.
+  generatePerMinute: number;
+  statusPerMinute: number;
+  otherPerMinute: number;
+  // Requests per minute from one IP address, across all routes and keys
+  ipPerMinute: number;
+  // Proxies whose X-Forwarded-For is believed, as addresses or IPv4 CIDR
+  // ranges. Empty means no proxy: forwarding headers are ignored.
+  trustedProxies: string[];
+  // Tokens each key may use per period; 0 means no quota. Keys may override it.
+  tokenQuota: number;
+  quotaPeriod: QuotaPeriod;
+  // Highest scheduling class a key's jobs get; higher requests are lowered
+  // to it. Keys may override it, and admin keys may use any class.
+  maxPriority: JobPriority;
+  // Where per-key usage is kept, so quotas survive a restart
+  usagePath: string;
+}
+
+const defaults: LimitsConfig = {
+  generatePerMinute: 60,
+  statusPerMinute: 120,
+  otherPerMinute: 300,
+  ipPerMinute: 600,
+  trustedProxies: [],
+  tokenQuota: 0,
+  quotaPeriod: "day",
+  maxPriority: "normal",
+  usagePath: ".data/usage.json",
+};
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value !== undefined && value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0
+    ? Math.floor(parsed)
+    : fallback;
+}
+
+function readList(value: string | undefined): string[] {
+  return (value ?? "").split(",").map((entry) => entry.trim()).filter(Boolean);
+}
+
+function readPeriod(value: string | undefined): QuotaPeriod {
+  return value === "month" ? "month" : defaults.quotaPeriod;
+}
+
+function readPriority(value: string | undefined): JobPriority {
+  return value === "interactive" || value === "batch" ? value : defaults.maxPriority;
+}
+
+export function getLimitsConfig(): LimitsConfig {
+  return {
+    generatePerMinute: readLimit(process.env.RATE_LIMIT_GENERATE_PER_MINUTE, defaults.generatePerMinute),
+    statusPerMinute: readLimit(process.env.RATE_LIMIT_STATUS_PER_MINUTE, defaults.statusPerMinute),
+    otherPerMinute: readLimit(process.env.RATE_LIMIT_OTHER_PER_MINUTE, defaults.otherPerMinute),
+    ipPerMinute: readLimit(process.env.RATE_LIMIT_IP_PER_MINUTE, defaults.ipPerMinute),
+    trustedProxies: process.env.TRUSTED_PROXIES === undefined ? defaults.trustedProxies : readList(process.env.TRUSTED_PROXIES),
+    tokenQuota: readLimit(process.env.API_TOKEN_QUOTA, defaults.tokenQuota),
+    quotaPeriod: readPeriod(process.env.API_QUOTA_PERIOD),
+    maxPriority: readPriority(process.env.API_MAX_PRIORITY),
+    usagePath: process.env.API_USAGE_PATH ?? defaults.usagePath,
+  };
+}
@@ -0,0 +1,80 @@
+import type { ModelDetailsResponse, ModelInfo, ModelOperationResponse } from "@/types/api";
+import { modelRegistryService } from "@/lib/services/model-registry-service";
+import { jobQueue, type ModelOperation } from "./queue";
+import { sseEvent } from "./stream";
+
+export function toModelOperationResponse(operation: ModelOperation): ModelOperationResponse {
+  return {
+    id: operation.id,
+    action: operation.action,
+    model_id: operation.modelId,
+    worker_id: operation.workerId,
+    status: operation.status,
+    progress: operation.progress,
+    error: operation.error ?? null,
+    created_at: operation.createdAt,
+    started_at: operation.startedAt ?? null,
+    finished_at: operation.finishedAt ?? null,
+  };
+}
+
+/**
+ * Marks manifest models as downloaded when a connected worker has them
+ */
+export function withWorkerDownloads(models: ModelInfo[]): ModelInfo[] {
+  const downloaded = new Set(jobQueue.getWorkers().flatMap((worker) => worker.models));
+  return models.map((model) => ({ ...model, downloaded: model.downloaded || downloaded.has(model.id) }));
+}
+
+/**
+ * A model's manifest entry and where it sits on the connected workers
+ * @returns null when neither the manifest nor any worker knows the model
+ */
+export async function getModelDetails(id: string): Promise<ModelDetailsResponse | null> {
+  const model = await modelRegistryService.getById(id);
+  const workers = jobQueue
+    .getWorkers()
+    .filter((worker) => worker.healthy)
+    .map((worker) => ({
+      worker_id: worker.id,
+      downloaded: worker.models.includes(id),
+      loaded: worker.model === id,
+    }));
+
+  const downloaded = workers.some((worker) => worker.downloaded);
+  const loaded = workers.some((worker) => worker.loaded);
+  if (!model && !downloaded && !loaded) {
+    return null;
+  }
+
+  return {
+    id,
+    model: model ? { ...model, downloaded: model.downloaded || downloaded } : null,
+    downloaded,
+    loaded,
+    workers,
+  };
+}
+
+/**
+ * Server-sent events for a model operation: its state on every change,
+ * closing once it has finished
+ */
+export function createModelOperationStream(id: string): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      unsubscribe = jobQueue.subscribeModelOperation(id, (operation) => {
+        controller.enqueue(encoder.encode(sseEvent(toModelOperationResponse(operation))));
+        if (operation.finishedAt) {
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+    },
+  });
+}
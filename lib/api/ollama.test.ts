@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { isOllamaLoadRequest, ollamaLoadResponse, toOllamaGenerateRequest } from "./ollama";
+import { jobQueue } from "./queue";
+import { ollamaChatRequestSchema, ollamaGenerateRequestSchema } from "./schemas";
+
+const MODEL = "llama3.2";
+
+describe("toOllamaGenerateRequest", () => {
+  it("maps options onto generate parameters", () => {
+    const body = ollamaGenerateRequestSchema.parse({
+      model: MODEL,
+      prompt: "Hi",
+      stream: false,
+      options: { num_predict: 32, temperature: 0.2, seed: 7, stop: ["\n"] },
+    });
+
+    expect(toOllamaGenerateRequest(body)).toMatchObject({
+      success: true,
+      data: { prompt: "Hi", max_tokens: 32, temperature: 0.2, seed: 7, stop: ["\n"], stream: false },
+    });
+  });
+
+  it("drops top_k, which Ollama clients send by default", () => {
+    const body = ollamaGenerateRequestSchema.parse({ model: MODEL, prompt: "Hi", options: { top_k: 40 } });
+    const request = toOllamaGenerateRequest(body);
+
+    expect(request.success).toBe(true);
+    expect(request.data).not.toHaveProperty("top_k");
+  });
+
+  it("sends the system prompt as a system message", () => {
+    const body = ollamaGenerateRequestSchema.parse({ model: MODEL, prompt: "Hi", system: "Be brief." });
+
+    expect(toOllamaGenerateRequest(body).data?.messages).toEqual([
+      { role: "system", content: "Be brief." },
+      { role: "user", content: "Hi" },
+    ]);
+  });
+});
+
+describe("ollamaOptionsSchema", () => {
+  it("rejects a seed that isn't an integer", () => {
+    const parsed = ollamaGenerateRequestSchema.safeParse({ model: MODEL, prompt: "Hi", options: { seed: 1.5 } });
+
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0].path).toEqual(["options", "seed"]);
+  });
+});
+
+describe("load requests", () => {
+  it("are an empty prompt without a system prompt, or no messages", () => {
+    const generate = (body: object) => isOllamaLoadRequest(ollamaGenerateRequestSchema.parse({ model: MODEL, ...body }));
+    const chat = (messages: object[]) => isOllamaLoadRequest(ollamaChatRequestSchema.parse({ model: MODEL, messages }));
+
+    expect(generate({ prompt: "" })).toBe(true);
+    expect(generate({ prompt: "", system: "Be brief." })).toBe(false);
+    expect(generate({ prompt: "Hi" })).toBe(false);
+    expect(chat([])).toBe(true);
+    expect(chat([{ role: "user", content: "Hi" }])).toBe(false);
+  });
+
+  it("need a connected worker", async () => {
+    const response = ollamaLoadResponse("generate", MODEL);
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toHaveProperty("error");
+  });
+
+  it("answer at once when a worker is connected", async () => {
+    const workerId = jobQueue.connect(undefined, 1, { model: null, models: [] });
+    try {
+      const response = ollamaLoadResponse("chat", MODEL);
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toMatchObject({
+        model: MODEL,
+        message: { role: "assistant", content: "" },
+        done: true,
+        done_reason: "load",
+      });
+    } finally {
+      jobQueue.disconnect(workerId);
+    }
+  });
+});
@@ -0,0 +1,229 @@
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+import type { ZodError } from "zod";
+import type { GenerateResponse } from "@/types/api";
+import { modelRegistryService } from "@/lib/services/model-registry-service";
+import { getApiKeyId } from "./auth";
+import { buildGenerateResponse } from "./generation";
+import { admissionHeaders, cancelJobOnAbort, queueErrorStatus, retryAfterHeaders, toWorkerModel } from "./jobs";
+import { jobQueue, QueueError, type Job, type WorkerSnapshot } from "./queue";
+import { corsHeaders } from "./response";
+import {
+  generateRequestSchema,
+  type GenerateRequest,
+  type OllamaChatRequest,
+  type OllamaGenerateRequest,
+} from "./schemas";
+import { createJobStream, ndjsonHeaders, ndjsonLine } from "./stream";
+
+// generate: /api/generate, chat: /api/chat
+export type OllamaKind = "generate" | "chat";
+
+const NS_PER_MS = 1_000_000;
+
+/**
+ * Error in Ollama's `{ error }` shape
+ */
+export function ollamaError(status: number, message: string, headers: Record<string, string> = {}) {
+  return NextResponse.json({ error: message }, { status, headers: { ...corsHeaders, ...headers } });
+}
+
+export function ollamaValidationError(error: ZodError) {
+  const issue = error.issues[0];
+  const path = issue?.path.join(".");
+
+  return ollamaError(400, issue ? `${path ? `${path}: ` : ""}${issue.message}` : "Invalid request");
+}
+
+export function ollamaQueueError(error: QueueError) {
+  return ollamaError(queueErrorStatus(error), error.message, retryAfterHeaders(error));
+}
+
+/**
+ * Whether a request only asks Ollama to load its model: a generate with an
+ * empty prompt and no system prompt, or a chat with no messages
+ */
+export function isOllamaLoadRequest(body: OllamaGenerateRequest | OllamaChatRequest) {
+  return "messages" in body ? body.messages.length === 0 : body.prompt === "" && !body.system;
+}
+
+/**
+ * Answers a load request as Ollama does, with an empty `done_reason: "load"`
+ * line. Workers switch models when a job first needs one, so there is
+ * nothing to load ahead of time; only a connected worker is required.
+ */
+export function ollamaLoadResponse(kind: OllamaKind, model: string) {
+  if (!jobQueue.isWorkerActive()) {
+    return ollamaError(503, "API Access is disabled or worker is not connected. Please enable it in the browser.");
+  }
+
+  return NextResponse.json({ ...toOllamaLine({ kind, model }, ""), done: true, done_reason: "load" }, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
+
+export function toOllamaGenerateRequest(body: OllamaGenerateRequest) {
+  return generateRequestSchema.safeParse({
+    ...toSamplingParams(body),
+    model: toWorkerModel(body.model),
+    ...(body.system
+      ? { messages: [{ role: "system", content: body.system }, { role: "user", content: body.prompt }] }
+      : { prompt: body.prompt }),
+  });
+}
+
+export function toOllamaChatRequest(body: OllamaChatRequest) {
+  return generateRequestSchema.safeParse({
+    ...toSamplingParams(body),
+    model: toWorkerModel(body.model),
+    messages: body.messages,
+  });
+}
+
+/**
+ * Lists the models healthy workers have downloaded, in the shape of
+ * Ollama's /api/tags. Details are read from the WebLLM model ID, and the
+ * size from the model catalog when it knows the model.
+ */
+export async function listOllamaTags(workers: WorkerSnapshot[]) {
+  const healthy = workers.filter((worker) => worker.healthy);
+  const ids = new Set(healthy.flatMap((worker) => [...(worker.model ? [worker.model] : []), ...worker.models]));
+  const modifiedAt = new Date().toISOString();
+
+  const models = await Promise.all(Array.from(ids).map(async (id) => {
+    const catalogEntry = await modelRegistryService.getById(id);
+
+    return {
+      name: id,
+      model: id,
+      modified_at: modifiedAt,
+      size: catalogEntry ? Math.round(parseFloat(catalogEntry.size) * 1024 ** 3) || 0 : 0,
+      digest: createHash("sha256").update(id).digest("hex"),
+      details: {
+        format: "mlc",
+        family: id.split(/[-_]/)[0].toLowerCase(),
+        parameter_size: id.match(/(\d+(?:\.\d+)?)[bB](?![a-zA-Z])/)?.[1].concat("B") ?? "",
+        quantization_level: id.match(/q\d+f\d+(?:_\d+)?/i)?.[0] ?? "",
+      },
+    };
+  }));
+
+  return { models };
+}
+
+interface OllamaRun {
+  kind: OllamaKind;
+  // Echoed back; runs on this model when a worker has it, else on the loaded one
+  model: string;
+  request: GenerateRequest;
+  clientId: string;
+}
+
+/**
+ * Submits a translated request to the worker queue and answers as Ollama
+ * does: one object, or NDJSON lines ending in a `done: true` line with
+ * timing and token counts
+ */
+export async function runOllamaCompletion(httpRequest: Request, run: OllamaRun) {
+  const started = Date.now();
+
+  let job: Job;
+  try {
+    job = jobQueue.submitJob(run.request, { clientId: run.clientId, apiKeyId: getApiKeyId(httpRequest) });
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return ollamaQueueError(error);
+    }
+    throw error;
+  }
+
+  const headers = { ...corsHeaders, ...admissionHeaders(job) };
+
+  if (run.request.stream) {
+    const stream = createJobStream(job.id, (event) => {
+      if (event.type === "delta") {
+        return ndjsonLine(toOllamaLine(run, event.text));
+      }
+
+      if (event.job.status !== "succeeded") {
+        return ndjsonLine({ error: event.job.error ?? `Job ${event.job.status}` });
+      }
+
+      const response = buildGenerateResponse(event.job.result, event.job.request, started, event.job.finishedAt);
+      return ndjsonLine(toOllamaFinalLine(run, "", response, event.job));
+    });
+
+    return new Response(stream, { status: 200, headers: { ...headers, ...ndjsonHeaders } });
+  }
+
+  const stopWatching = cancelJobOnAbort(httpRequest.signal, job.id);
+  try {
+    const result = await jobQueue.waitForJob(job.id);
+    const response = buildGenerateResponse(result, run.request, started);
+
+    return NextResponse.json(toOllamaFinalLine(run, response.text, response, jobQueue.getJob(job.id) ?? job), {
+      status: 200,
+      headers,
+    });
+  } catch (error) {
+    if (error instanceof QueueError && error.code === "INVALID_REQUEST") {
+      return ollamaError(400, error.message, admissionHeaders(job));
+    }
+    return ollamaError(500, error instanceof Error ? error.message : "Generation failed", admissionHeaders(job));
+  } finally {
+    stopWatching();
+  }
+}
+
+function toOllamaLine(run: Pick<OllamaRun, "kind" | "model">, text: string) {
+  const base = { model: run.model, created_at: new Date().toISOString() };
+
+  return run.kind === "chat"
+    ? { ...base, message: { role: "assistant", content: text }, done: false }
+    : { ...base, response: text, done: false };
+}
+
+function toOllamaFinalLine(run: OllamaRun, text: string, response: GenerateResponse, job: Job) {
+  const finishedAt = job.finishedAt ?? Date.now();
+
+  return {
+    ...toOllamaLine(run, text),
+    done: true,
+    done_reason: response.finish_reason === "length" ? "length" : "stop",
+    total_duration: (finishedAt - job.timestamp) * NS_PER_MS,
+    prompt_eval_count: response.usage.prompt_tokens,
+    ...(response.performance.time_to_first_token_ms !== null
+      ? { prompt_eval_duration: Math.round(response.performance.time_to_first_token_ms * NS_PER_MS) }
+      : {}),
+    eval_count: response.usage.completion_tokens,
+    eval_duration: getEvalDurationNs(response, finishedAt - (job.startedAt ?? job.timestamp)),
+  };
+}
+
+// Decode time from the engine's own rate, or the job's run time when the
+// worker didn't report one
+function getEvalDurationNs(response: GenerateResponse, runTimeMs: number) {
+  const { tokens_per_second: rate } = response.performance;
+  return rate > 0
+    ? Math.round((response.usage.completion_tokens / rate) * 1000 * NS_PER_MS)
+    : runTimeMs * NS_PER_MS;
+}
+
+function toSamplingParams(body: OllamaGenerateRequest | OllamaChatRequest) {
+  const { options } = body;
+
+  return {
+    max_tokens: options.num_predict !== undefined && options.num_predict > 0 ? options.num_predict : undefined,
+    temperature: options.temperature,
+    top_p: options.top_p,
+    // top_k is dropped: Ollama clients send it by default, and WebLLM can't apply it
+    frequency_penalty: options.frequency_penalty,
+    presence_penalty: options.presence_penalty,
+    stop: options.stop,
+    seed: options.seed,
+    stream: body.stream,
+    json_mode: body.format !== undefined || undefined,
+    json_schema: typeof body.format === "object" ? body.format : undefined,
+  };
+}
@@ -0,0 +1,360 @@
+import { NextResponse } from "next/server";
+import type { ZodError } from "zod";
+import type { GenerateResponse } from "@/types/api";
+import { getApiKeyId } from "./auth";
+import { buildEmbeddingResponse } from "./embeddings";
+import { buildGenerateResponse } from "./generation";
+import { admissionHeaders, cancelJobOnAbort, queueErrorStatus, retryAfterHeaders, toWorkerModel } from "./jobs";
+import { jobQueue, QueueError, type Job, type JobEvent, type WorkerSnapshot } from "./queue";
+import { corsHeaders } from "./response";
+import {
+  embeddingRequestSchema,
+  generateRequestSchema,
+  type ChatCompletionRequest,
+  type CompletionRequest,
+  type EmbeddingRequest,
+  type GenerateRequest,
+  type OpenAIEmbeddingRequest,
+  type OpenAIMessage,
+} from "./schemas";
+import { createJobStream, sseEvent, sseHeaders } from "./stream";
+
+// chat: /v1/chat/completions, text: /v1/completions
+export type CompletionKind = "chat" | "text";
+
+type OpenAIFinishReason = "stop" | "length" | "tool_calls";
+
+interface OpenAIErrorOptions {
+  type?: string;
+  code?: string | null;
+  param?: string | null;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Error in OpenAI's `{ error: { message, type, param, code } }` shape, which
+ * the official SDKs turn into typed exceptions
+ */
+export function openAIError(status: number, message: string, options: OpenAIErrorOptions = {}) {
+  return NextResponse.json(
+    {
+      error: {
+        message,
+        type: options.type ?? (status >= 500 ? "server_error" : "invalid_request_error"),
+        param: options.param ?? null,
+        code: options.code ?? null,
+      },
+    },
+    { status, headers: { ...corsHeaders, ...options.headers } },
+  );
+}
+
+export function openAIValidationError(error: ZodError) {
+  const issue = error.issues[0];
+  const param = issue?.path.join(".") || null;
+
+  return openAIError(400, issue ? `${param ? `${param}: ` : ""}${issue.message}` : "Invalid request", {
+    param,
+    code: "invalid_value",
+  });
+}
+
+export function openAIQueueError(error: QueueError) {
+  const status = queueErrorStatus(error);
+
+  return openAIError(status, error.message, {
+    type: status === 429 ? "rate_limit_error" : status >= 500 ? "server_error" : "invalid_request_error",
+    code: error.code.toLowerCase(),
+    headers: retryAfterHeaders(error),
+  });
+}
+
+/**
+ * Maps a chat completion request onto the worker's generate request
+ */
+export function toChatGenerateRequest(body: ChatCompletionRequest) {
+  const responseFormat = body.response_format;
+
+  return generateRequestSchema.safeParse({
+    ...toSamplingParams(body),
+    model: toWorkerModel(body.model),
+    messages: body.messages.map((message) => ({
+      role: message.role,
+      content: messageText(message.content),
+      tool_calls: message.tool_calls,
+      tool_call_id: message.tool_call_id,
+    })),
+    max_tokens: body.max_completion_tokens ?? body.max_tokens ?? undefined,
+    tools: body.tools ?? undefined,
+    tool_choice: body.tool_choice ?? undefined,
+    json_mode: responseFormat?.type === "json_object" || responseFormat?.type === "json_schema" || undefined,
+    json_schema: responseFormat?.type === "json_schema" ? responseFormat.json_schema.schema : undefined,
+  });
+}
+
+export function toCompletionGenerateRequest(body: CompletionRequest) {
+  return generateRequestSchema.safeParse({
+    ...toSamplingParams(body),
+    model: toWorkerModel(body.model),
+    prompt: Array.isArray(body.prompt) ? body.prompt[0] : body.prompt,
+  });
+}
+
+/**
+ * Maps an embeddings request onto the worker's. Unlike completions, the
+ * model is passed on: the worker loads the embedding model it names.
+ */
+export function toEmbeddingRequest(body: OpenAIEmbeddingRequest) {
+  return embeddingRequestSchema.safeParse({
+    input: body.input,
+    model: body.model,
+  });
+}
+
+/**
+ * Lists every model a healthy worker has loaded or downloaded. Loaded
+ * models come first, since those answer without a load delay.
+ */
+export function listOpenAIModels(workers: WorkerSnapshot[]) {
+  const created = Math.floor(Date.now() / 1000);
+  const healthy = workers.filter((worker) => worker.healthy);
+  const loaded = new Set(healthy.flatMap((worker) => (worker.model ? [worker.model] : [])));
+  const available = new Set(healthy.flatMap((worker) => worker.models));
+
+  const ids = [...Array.from(loaded), ...Array.from(available).filter((id) => !loaded.has(id))];
+
+  return {
+    object: "list",
+    data: ids.map((id) => ({
+      id,
+      object: "model",
+      created,
+      owned_by: "webllm",
+      loaded: loaded.has(id),
+    })),
+  };
+}
+
+interface OpenAIRun {
+  kind: CompletionKind;
+  // Echoed back; runs on this model when a worker has it, else on the loaded one
+  model: string;
+  request: GenerateRequest;
+  clientId: string;
+  includeUsage: boolean;
+}
+
+/**
+ * Submits a translated request to the worker queue and answers in OpenAI's
+ * format, either as one completion object or as SSE chunks ending in [DONE]
+ */
+export async function runOpenAICompletion(httpRequest: Request, run: OpenAIRun) {
+  const started = Date.now();
+
+  let job: Job;
+  try {
+    job = jobQueue.submitJob(run.request, { clientId: run.clientId, apiKeyId: getApiKeyId(httpRequest) });
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return openAIQueueError(error);
+    }
+    throw error;
+  }
+
+  const id = `${run.kind === "chat" ? "chatcmpl" : "cmpl"}-${job.id}`;
+  const created = Math.floor(job.timestamp / 1000);
+  const headers = { ...corsHeaders, ...admissionHeaders(job) };
+
+  if (run.request.stream) {
+    const stream = createJobStream(job.id, createChunkFormatter(run, id, created, started));
+    return new Response(stream, { status: 200, headers: { ...headers, ...sseHeaders } });
+  }
+
+  const stopWatching = cancelJobOnAbort(httpRequest.signal, job.id);
+  try {
+    const result = await jobQueue.waitForJob(job.id);
+    const response = buildGenerateResponse(result, run.request, started);
+
+    return NextResponse.json(toCompletionObject(run, id, created, response), { status: 200, headers });
+  } catch (error) {
+    if (error instanceof QueueError && error.code === "INVALID_REQUEST") {
+      return openAIError(400, error.message, { code: "invalid_value", headers: admissionHeaders(job) });
+    }
+    return openAIError(500, error instanceof Error ? error.message : "Generation failed", {
+      code: "generation_error",
+      headers: admissionHeaders(job),
+    });
+  } finally {
+    stopWatching();
+  }
+}
+
+interface OpenAIEmbeddingRun {
+  model: string;
+  request: EmbeddingRequest;
+  clientId: string;
+  encodingFormat: "float" | "base64";
+}
+
+/**
+ * Submits an embeddings job and answers with OpenAI's list of embedding
+ * objects
+ */
+export async function runOpenAIEmbedding(httpRequest: Request, run: OpenAIEmbeddingRun) {
+  let job: Job;
+  try {
+    job = jobQueue.submitJob(run.request, { clientId: run.clientId, apiKeyId: getApiKeyId(httpRequest) });
+  } catch (error) {
+    if (error instanceof QueueError) {
+      return openAIQueueError(error);
+    }
+    throw error;
+  }
+
+  const headers = { ...corsHeaders, ...admissionHeaders(job) };
+  const stopWatching = cancelJobOnAbort(httpRequest.signal, job.id);
+  try {
+    const response = buildEmbeddingResponse(await jobQueue.waitForJob(job.id), job.timestamp);
+
+    return NextResponse.json(
+      {
+        object: "list",
+        data: response.embeddings.map((embedding, index) => ({
+          object: "embedding",
+          index,
+          embedding: run.encodingFormat === "base64" ? toBase64Floats(embedding) : embedding,
+        })),
+        model: response.model || run.model,
+        usage: response.usage,
+      },
+      { status: 200, headers },
+    );
+  } catch (error) {
+    if (error instanceof QueueError && error.code === "INVALID_REQUEST") {
+      return openAIError(400, error.message, { code: "invalid_value", headers: admissionHeaders(job) });
+    }
+    return openAIError(500, error instanceof Error ? error.message : "Embedding failed", {
+      code: "generation_error",
+      headers: admissionHeaders(job),
+    });
+  } finally {
+    stopWatching();
+  }
+}
+
+function toCompletionObject(run: OpenAIRun, id: string, created: number, response: GenerateResponse) {
+  const finishReason = toOpenAIFinishReason(response.finish_reason);
+
+  const message = response.tool_calls
+    ? { role: "assistant", content: null, tool_calls: response.tool_calls }
+    : { role: "assistant", content: response.text };
+
+  const choice = run.kind === "chat"
+    ? { index: 0, message, logprobs: null, finish_reason: finishReason }
+    : { index: 0, text: response.text, logprobs: null, finish_reason: finishReason };
+
+  return {
+    id,
+    object: run.kind === "chat" ? "chat.completion" : "text_completion",
+    created,
+    model: run.model,
+    choices: [choice],
+    usage: response.usage,
+  };
+}
+
+/**
+ * Builds the per-event serializer for a streamed completion. Chat streams
+ * open with an assistant role delta, as OpenAI's do. Tool calls arrive
+ * whole, in one delta before the finish chunk.
+ */
+function createChunkFormatter(run: OpenAIRun, id: string, created: number, started: number) {
+  const object = run.kind === "chat" ? "chat.completion.chunk" : "text_completion";
+  let opened = false;
+
+  const chunk = (content: string | null, finishReason: OpenAIFinishReason | null) => {
+    const choice = run.kind === "chat"
+      ? { index: 0, delta: content === null ? {} : { content }, logprobs: null, finish_reason: finishReason }
+      : { index: 0, text: content ?? "", logprobs: null, finish_reason: finishReason };
+
+    return sseEvent({ id, object, created, model: run.model, choices: [choice] });
+  };
+
+  const open = () => {
+    if (opened || run.kind !== "chat") return "";
+    opened = true;
+    return sseEvent({
+      id,
+      object,
+      created,
+      model: run.model,
+      choices: [{ index: 0, delta: { role: "assistant", content: "" }, logprobs: null, finish_reason: null }],
+    });
+  };
+
+  return (event: JobEvent): string | null => {
+    if (event.type === "delta") {
+      return open() + chunk(event.text, null);
+    }
+
+    if (event.job.status !== "succeeded") {
+      return open() + sseEvent({
+        error: {
+          message: event.job.error ?? `Job ${event.job.status}`,
+          type: event.job.errorCode === "INVALID_REQUEST" ? "invalid_request_error" : "server_error",
+          param: null,
+          code: event.job.errorCode?.toLowerCase() ?? event.job.status,
+        },
+      });
+    }
+
+    const response = buildGenerateResponse(event.job.result, event.job.request, started, event.job.finishedAt);
+    const usage = run.includeUsage
+      ? sseEvent({ id, object, created, model: run.model, choices: [], usage: response.usage })
+      : "";
+    const toolCalls = response.tool_calls && run.kind === "chat"
+      ? sseEvent({
+        id,
+        object,
+        created,
+        model: run.model,
+        choices: [{
+          index: 0,
+          delta: { tool_calls: response.tool_calls.map((call, index) => ({ index, ...call })) },
+          logprobs: null,
+          finish_reason: null,
+        }],
+      })
+      : "";
+
+    return open() + toolCalls + chunk(null, toOpenAIFinishReason(response.finish_reason)) + usage + "data: [DONE]\n\n";
+  };
+}
+
+function toSamplingParams(body: ChatCompletionRequest | CompletionRequest) {
+  return {
+    max_tokens: body.max_tokens ?? undefined,
+    temperature: body.temperature ?? undefined,
+    top_p: body.top_p ?? undefined,
+    frequency_penalty: body.frequency_penalty ?? undefined,
+    presence_penalty: body.presence_penalty ?? undefined,
+    stop: typeof body.stop === "string" ? [body.stop] : body.stop ?? undefined,
+    seed: body.seed ?? undefined,
+    logit_bias: body.logit_bias ?? undefined,
+    stream: body.stream ?? undefined,
+  };
+}
+
+function toOpenAIFinishReason(reason: GenerateResponse["finish_reason"]): OpenAIFinishReason {
+  return reason === "length" || reason === "tool_calls" ? reason : "stop";
+}
+
+// OpenAI's base64 format: little-endian float32s
+function toBase64Floats(values: number[]) {
+  return Buffer.from(new Float32Array(values).buffer).toString("base64");
+}
+
+function messageText(content: OpenAIMessage["content"]) {
+  if (!content) return "";
+  return typeof content === "string" ? content : content.map((part) => part.text).join("");
+}
@@ -0,0 +1,592 @@
+import type { z } from "zod";
+import type { JsonSchema } from "./json-schema";
+import { getRequiredScope } from "./auth";
+import { API_VERSION } from "./response";
+import {
+  apiErrorResponseSchema,
+  apiErrorSchema,
+  apiKeyListResponseSchema,
+  apiKeyResponseSchema,
+  apiResponseSchema,
+  createdApiKeyResponseSchema,
+  debugLogEntrySchema,
+  debugLogsResponseSchema,
+  debugTraceSchema,
+  debugTracesResponseSchema,
+  dispatchedJobSchema,
+  embeddingResponseSchema,
+  generateResponseSchema,
+  generateStreamEventSchema,
+  jobListResponseSchema,
+  jobResponseSchema,
+  jsonOutputCheckSchema,
+  modelDetailsResponseSchema,
+  modelInfoSchema,
+  modelListResponseSchema,
+  modelOperationResponseSchema,
+  modelSuggestionSchema,
+  profileMetricSchema,
+  profileResponseSchema,
+  queueSnapshotSchema,
+  responseMetadataSchema,
+  statusResponseSchema,
+  successResponseSchema,
+  usageListResponseSchema,
+  usageResponseSchema,
+  workerAcksResponseSchema,
+  workerConnectResponseSchema,
+  workerMessageSchema,
+  workerPollResponseSchema,
+  workerSnapshotSchema,
+  workerStatusSchema,
+} from "./response-schemas";
+import {
+  apiKeyCreateSchema,
+  chatCompletionRequestSchema,
+  completionRequestSchema,
+  debugLogsQuerySchema,
+  debugProfileQuerySchema,
+  debugTracesQuerySchema,
+  embeddingRequestSchema,
+  generateMessageSchema,
+  generateRequestSchema,
+  listJobsQuerySchema,
+  modelCommandSchema,
+  modelListQuerySchema,
+  modelOperationQuerySchema,
+  ollamaChatRequestSchema,
+  ollamaGenerateRequestSchema,
+  openAIEmbeddingRequestSchema,
+  toolCallSchema,
+  toolChoiceSchema,
+  toolSchema,
+  usageQuerySchema,
+  workerConnectSchema,
+  workerDisconnectSchema,
+  workerPollQuerySchema,
+  workerResultSchema,
+  workerTelemetrySchema,
+  workerUpstreamSchema,
+} from "./schemas";
+import { toJsonSchema } from "./zod-json-schema";
+
+const COMPONENTS_PREFIX = "#/components/schemas/";
+
+// Schemas published under #/components/schemas. Wherever one of them
+// appears inside another schema, the document refers to it by name.
+const COMPONENTS: Array<[string, z.ZodTypeAny]> = [
+  ["APIError", apiErrorSchema],
+  ["ResponseMetadata", responseMetadataSchema],
+  ["ErrorResponse", apiErrorResponseSchema],
+  ["Tool", toolSchema],
+  ["ToolCall", toolCallSchema],
+  ["ToolChoice", toolChoiceSchema],
+  ["GenerateMessage", generateMessageSchema],
+  ["GenerateRequest", generateRequestSchema],
+  ["GenerateResponse", generateResponseSchema],
+  ["GenerateStreamEvent", generateStreamEventSchema],
+  ["JsonOutputCheck", jsonOutputCheckSchema],
+  ["EmbeddingRequest", embeddingRequestSchema],
+  ["EmbeddingResponse", embeddingResponseSchema],
+  ["Job", jobResponseSchema],
+  ["JobList", jobListResponseSchema],
+  ["ModelInfo", modelInfoSchema],
+  ["ModelSuggestion", modelSuggestionSchema],
+  ["ModelList", modelListResponseSchema],
+  ["ModelDetails", modelDetailsResponseSchema],
+  ["ModelCommand", modelCommandSchema],
+  ["ModelOperation", modelOperationResponseSchema],
+  ["WorkerTelemetry", workerTelemetrySchema],
+  ["WorkerStatus", workerStatusSchema],
+  ["StatusResponse", statusResponseSchema],
+  ["WorkerSnapshot", workerSnapshotSchema],
+  ["QueueSnapshot", queueSnapshotSchema],
+  ["Usage", usageResponseSchema],
+  ["UsageList", usageListResponseSchema],
+  ["ApiKeyCreateRequest", apiKeyCreateSchema],
+  ["ApiKey", apiKeyResponseSchema],
+  ["CreatedApiKey", createdApiKeyResponseSchema],
+  ["ApiKeyList", apiKeyListResponseSchema],
+  ["DebugLogEntry", debugLogEntrySchema],
+  ["DebugLogs", debugLogsResponseSchema],
+  ["DebugTrace", debugTraceSchema],
+  ["DebugTraces", debugTracesResponseSchema],
+  ["ProfileMetric", profileMetricSchema],
+  ["Profile", profileResponseSchema],
+  ["WorkerConnectRequest", workerConnectSchema],
+  ["WorkerConnectResponse", workerConnectResponseSchema],
+  ["DispatchedJob", dispatchedJobSchema],
+  ["WorkerMessage", workerMessageSchema],
+  ["WorkerPollResponse", workerPollResponseSchema],
+  ["WorkerUpstream", workerUpstreamSchema],
+  ["WorkerAcks", workerAcksResponseSchema],
+  ["WorkerResult", workerResultSchema],
+  ["Success", successResponseSchema],
+  ["ChatCompletionRequest", chatCompletionRequestSchema],
+  ["CompletionRequest", completionRequestSchema],
+  ["OpenAIEmbeddingRequest", openAIEmbeddingRequestSchema],
+  ["OllamaGenerateRequest", ollamaGenerateRequestSchema],
+  ["OllamaChatRequest", ollamaChatRequestSchema],
+];
+
+const ERROR_DESCRIPTIONS: Record<number, string> = {
+  400: "Invalid request",
+  401: "Missing, unknown or revoked API key",
+  403: "The API key lacks the route's scope",
+  404: "Not found",
+  409: "Conflicts with the resource's current state",
+  429: "Rate limit, token quota or queue limit reached; see Retry-After",
+  500: "Generation failed",
+  503: "No worker is connected, or the queue wait would be too long",
+};
+
+interface Operation {
+  method: "get" | "post" | "delete";
+  // OpenAPI path template, e.g. /api/v1/jobs/{id}
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  query?: z.AnyZodObject;
+  body?: z.ZodTypeAny;
+  // Sample request body
+  example?: unknown;
+  // Success payload, inside the API envelope unless raw is set
+  response?: z.ZodTypeAny;
+  status?: number;
+  // Events sent instead when the request asks for a stream
+  stream?: z.ZodTypeAny;
+  // The compatible routes answer in their own formats, without the envelope
+  raw?: string;
+  // Error statuses beyond the ones every route can return
+  errors?: number[];
+}
+
+const OPERATIONS: Operation[] = [
+  {
+    method: "post",
+    path: "/api/v1/generate",
+    tag: "Generation",
+    summary: "Generate text",
+    description: "Runs the request on a connected browser worker and waits for the result. With `stream: true`, sends server-sent events instead.",
+    body: generateRequestSchema,
+    example: { prompt: "Explain WebGPU in one sentence.", max_tokens: 128 },
+    response: generateResponseSchema,
+    stream: generateStreamEventSchema,
+    errors: [404, 429, 500, 503],
+  },
+  {
+    method: "post",
+    path: "/api/v1/embeddings",
+    tag: "Generation",
+    summary: "Embed text",
+    body: embeddingRequestSchema,
+    example: { input: ["first passage", "second passage"] },
+    response: embeddingResponseSchema,
+    errors: [429, 500, 503],
+  },
+  {
+    method: "post",
+    path: "/api/v1/jobs",
+    tag: "Jobs",
+    summary: "Queue a job",
+    description: "Takes the same body as `POST /api/v1/generate` and returns straight away. Follow the job at its `Location`.",
+    body: generateRequestSchema,
+    example: { prompt: "Summarize the history of the printing press.", priority: "batch" },
+    response: jobResponseSchema,
+    status: 202,
+    errors: [404, 429, 503],
+  },
+  {
+    method: "get",
+    path: "/api/v1/jobs",
+    tag: "Jobs",
+    summary: "List jobs",
+    description: "Newest first. Keys other than admin keys see only the jobs they submitted.",
+    query: listJobsQuerySchema,
+    response: jobListResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/jobs/{id}",
+    tag: "Jobs",
+    summary: "Get a job",
+    description: "Another key's job answers 404, as if it didn't exist.",
+    response: jobResponseSchema,
+    errors: [404],
+  },
+  {
+    method: "delete",
+    path: "/api/v1/jobs/{id}",
+    tag: "Jobs",
+    summary: "Cancel a job",
+    description: "Only the key that submitted the job, or an admin key, can cancel it.",
+    response: jobResponseSchema,
+    errors: [404, 409],
+  },
+  {
+    method: "post",
+    path: "/api/v1/jobs/{id}/promote",
+    tag: "Jobs",
+    summary: "Move a queued job to the front",
+    response: jobResponseSchema,
+    errors: [404, 409],
+  },
+  {
+    method: "get",
+    path: "/api/v1/models",
+    tag: "Models",
+    summary: "List models",
+    query: modelListQuerySchema,
+    response: modelListResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/models/{id}",
+    tag: "Models",
+    summary: "Get a model",
+    response: modelDetailsResponseSchema,
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/models/load",
+    tag: "Models",
+    summary: "Load, unload or download a model on a worker",
+    description: "Returns straight away. Follow the operation at its `Location`.",
+    body: modelCommandSchema,
+    example: { model_id: "Llama-3.2-1B-Instruct-q4f16_1-MLC", action: "load" },
+    response: modelOperationResponseSchema,
+    status: 202,
+    errors: [409, 503],
+  },
+  {
+    method: "get",
+    path: "/api/v1/models/operations/{id}",
+    tag: "Models",
+    summary: "Get a model operation",
+    description: "With `stream=true`, sends the operation on every change as server-sent events until it finishes.",
+    query: modelOperationQuerySchema,
+    response: modelOperationResponseSchema,
+    stream: modelOperationResponseSchema,
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/status",
+    tag: "System",
+    summary: "Get system status",
+    description: "Built from the connected workers' telemetry and the queue's counters. Worker IDs and telemetry are only shown to admin keys.",
+    response: statusResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/queue",
+    tag: "System",
+    summary: "Get a queue snapshot",
+    response: queueSnapshotSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/usage",
+    tag: "System",
+    summary: "Get usage this quota period",
+    description: "Keys see their own usage; admin keys see every key's, or the one named by `key_id`.",
+    query: usageQuerySchema,
+    response: usageListResponseSchema,
+  },
+  {
+    method: "post",
+    path: "/api/v1/keys",
+    tag: "Keys",
+    summary: "Issue an API key",
+    description: "The plaintext key is returned only this once.",
+    body: apiKeyCreateSchema,
+    example: { name: "ci", scopes: ["generate"] },
+    response: createdApiKeyResponseSchema,
+    status: 201,
+  },
+  {
+    method: "get",
+    path: "/api/v1/keys",
+    tag: "Keys",
+    summary: "List API keys",
+    response: apiKeyListResponseSchema,
+  },
+  {
+    method: "delete",
+    path: "/api/v1/keys/{id}",
+    tag: "Keys",
+    summary: "Revoke an API key",
+    response: apiKeyResponseSchema,
+    errors: [404],
+  },
+  {
+    method: "get",
+    path: "/api/v1/debug/logs",
+    tag: "Debug",
+    summary: "Get server logs",
+    description: "Oldest first. With `stream=true`, sends the matching entries and then each new one as server-sent events.",
+    query: debugLogsQuerySchema,
+    response: debugLogsResponseSchema,
+    stream: debugLogEntrySchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/debug/traces",
+    tag: "Debug",
+    summary: "Get completed traces",
+    query: debugTracesQuerySchema,
+    response: debugTracesResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/debug/profile",
+    tag: "Debug",
+    summary: "Get aggregated metrics",
+    query: debugProfileQuerySchema,
+    response: profileResponseSchema,
+  },
+  {
+    method: "post",
+    path: "/api/v1/worker/connect",
+    tag: "Worker",
+    summary: "Register a browser worker",
+    description: "The worker belongs to the key that registers it; the worker routes refuse other keys with 403.",
+    body: workerConnectSchema,
+    example: { capacity: 1, model: null, models: [] },
+    response: workerConnectResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/worker/poll",
+    tag: "Worker",
+    summary: "Receive jobs, cancellations and model commands",
+    description: "With `wait`, holds the request until a message arrives (long-poll).",
+    query: workerPollQuerySchema,
+    response: workerPollResponseSchema,
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/worker/poll",
+    tag: "Worker",
+    summary: "Send heartbeats, lease renewals, chunks and model progress",
+    body: workerUpstreamSchema,
+    response: workerAcksResponseSchema,
+    errors: [404],
+  },
+  {
+    method: "post",
+    path: "/api/v1/worker/result",
+    tag: "Worker",
+    summary: "Report a job's result",
+    body: workerResultSchema,
+    response: successResponseSchema,
+    errors: [404, 409],
+  },
+  {
+    method: "post",
+    path: "/api/v1/worker/disconnect",
+    tag: "Worker",
+    summary: "Unregister a browser worker",
+    description: "Its running jobs go back to the queue.",
+    body: workerDisconnectSchema,
+    response: successResponseSchema,
+  },
+  {
+    method: "get",
+    path: "/api/v1/openapi.json",
+    tag: "System",
+    summary: "Get this document",
+    raw: "OpenAPI 3.1 document",
+  },
+  {
+    method: "post",
+    path: "/v1/chat/completions",
+    tag: "OpenAI-compatible",
+    summary: "Create a chat completion",
+    body: chatCompletionRequestSchema,
+    example: { model: "Llama-3.2-1B-Instruct-q4f16_1-MLC", messages: [{ role: "user", content: "Hello!" }] },
+    raw: "An OpenAI chat.completion object, or chat.completion.chunk events when stream is true",
+  },
+  {
+    method: "post",
+    path: "/v1/completions",
+    tag: "OpenAI-compatible",
+    summary: "Create a text completion",
+    body: completionRequestSchema,
+    example: { model: "Llama-3.2-1B-Instruct-q4f16_1-MLC", prompt: "Once upon a time" },
+    raw: "An OpenAI text_completion object, or its chunks when stream is true",
+  },
+  {
+    method: "post",
+    path: "/v1/embeddings",
+    tag: "OpenAI-compatible",
+    summary: "Create embeddings",
+    body: openAIEmbeddingRequestSchema,
+    example: { model: "snowflake-arctic-embed-m-q0f32-MLC-b4", input: "Hello!" },
+    raw: "An OpenAI embedding list",
+  },
+  {
+    method: "get",
+    path: "/v1/models",
+    tag: "OpenAI-compatible",
+    summary: "List models",
+    raw: "An OpenAI model list",
+  },
+  {
+    method: "post",
+    path: "/api/generate",
+    tag: "Ollama-compatible",
+    summary: "Generate a completion",
+    body: ollamaGenerateRequestSchema,
+    example: { model: "Llama-3.2-1B-Instruct-q4f16_1-MLC", prompt: "Why is the sky blue?", stream: false },
+    raw: "An Ollama generate response, or newline-delimited chunks when stream is true",
+  },
+  {
+    method: "post",
+    path: "/api/chat",
+    tag: "Ollama-compatible",
+    summary: "Generate a chat completion",
+    body: ollamaChatRequestSchema,
+    example: { model: "Llama-3.2-1B-Instruct-q4f16_1-MLC", messages: [{ role: "user", content: "Hello!" }], stream: false },
+    raw: "An Ollama chat response, or newline-delimited chunks when stream is true",
+  },
+  {
+    method: "get",
+    path: "/api/tags",
+    tag: "Ollama-compatible",
+    summary: "List models",
+    raw: "An Ollama model list",
+  },
+];
+
+let cachedDocument: JsonSchema | null = null;
+
+/**
+ * OpenAPI 3.1 document for every route, generated from the zod schemas
+ * the routes validate with and the response schemas types/api.ts uses.
+ * Built once, since the schemas don't change while the server runs.
+ */
+export function getOpenAPIDocument(): JsonSchema {
+  cachedDocument ??= buildDocument();
+  return cachedDocument;
+}
+
+function buildDocument(): JsonSchema {
+  const refs = new Map(COMPONENTS.map(([name, schema]) => [schema, name]));
+  const schema = (zod: z.ZodTypeAny) => toJsonSchema(zod, { refs, refPrefix: COMPONENTS_PREFIX });
+  const ref = (zod: z.ZodTypeAny) => refs.has(zod) ? { $ref: `${COMPONENTS_PREFIX}${refs.get(zod)}` } : schema(zod);
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of OPERATIONS) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = buildOperation(operation, schema, ref);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "TattvaMente API",
+      version: API_VERSION,
+      description: "Runs generation on browser workers. Every /api/v1 response comes in the `{ success, data, error, metadata }` envelope.",
+    },
+    servers: [{ url: "/" }],
+    tags: [...new Set(OPERATIONS.map((operation) => operation.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(COMPONENTS.map(([name, zod]) => [name, schema(zod)])),
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "An API key with the scope listed on the operation. Not needed when the server runs with API_AUTH_MODE=disabled.",
+        },
+      },
+    },
+  };
+}
+
+function buildOperation(
+  operation: Operation,
+  schema: (zod: z.ZodTypeAny) => JsonSchema,
+  ref: (zod: z.ZodTypeAny) => JsonSchema,
+): JsonSchema {
+  const scope = getRequiredScope(operation.path);
+  const parameters = [
+    ...[...operation.path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+      name,
+      in: "path",
+      required: true,
+      schema: { type: "string" },
+    })),
+    ...Object.entries<z.ZodTypeAny>(operation.query?.shape ?? {}).map(([name, field]) => ({
+      name,
+      in: "query",
+      required: !field.isOptional(),
+      ...(field.description ? { description: field.description } : {}),
+      schema: schema(field),
+    })),
+  ];
+
+  const content: Record<string, JsonSchema> = {};
+  if (operation.response) {
+    content["application/json"] = { schema: schema(apiResponseSchema(operation.response)) };
+  }
+  if (operation.stream) {
+    // OpenAPI 3.1 can't describe the events themselves, so name their schema
+    content["text/event-stream"] = {
+      schema: { type: "string", description: `Server-sent events whose data is ${describeRef(ref(operation.stream))} as JSON` },
+    };
+  }
+
+  const errors = [
+    ...(operation.body || operation.query ? [400] : []),
+    ...(scope ? [401, 403] : []),
+    ...(operation.errors ?? []),
+  ];
+
+  return {
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    operationId: getOperationId(operation),
+    security: scope ? [{ apiKey: [scope] }] : [],
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(operation.body
+      ? {
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: ref(operation.body),
+              ...(operation.example !== undefined ? { example: operation.example } : {}),
+            },
+          },
+        },
+      }
+      : {}),
+    responses: {
+      [operation.status ?? 200]: operation.raw
+        ? { description: operation.raw, content: { "application/json": { schema: {} } } }
+        : { description: "Success", content },
+      ...Object.fromEntries(errors.map((status) => [
+        status,
+        operation.raw
+          ? { description: ERROR_DESCRIPTIONS[status] }
+          : { description: ERROR_DESCRIPTIONS[status], content: { "application/json": { schema: ref(apiErrorResponseSchema) } } },
+      ])),
+    },
+  };
+}
+
+// e.g. getApiV1JobsId for GET /api/v1/jobs/{id}
+function getOperationId(operation: Operation): string {
+  const words = operation.path.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  return operation.method + words.map((word) => word[0].toUpperCase() + word.slice(1)).join("");
+}
+
+function describeRef(json: JsonSchema): string {
+  return typeof json.$ref === "string" ? `a ${json.$ref.slice(COMPONENTS_PREFIX.length)}` : "an object";
+}
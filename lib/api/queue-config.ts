@@ -0,0 +1,41 @@
+export type JobStoreBackend = "memory" | "file";
+
+export interface QueueConfig {
+  // Jobs allowed to wait in line before new ones are turned away
+  maxQueueDepth: number;
+  // Longest a job may be expected to wait when it is submitted, and the
+  // longest a request-bound job may sit in the queue before it expires
+  maxWaitMs: number;
+  // How long finished jobs and their results stay retrievable
+  jobRetentionMs: number;
+  store: JobStoreBackend;
+  // Snapshot location for the file store
+  storePath: string;
+}
+
+const defaults: QueueConfig = {
+  maxQueueDepth: 100,
+  maxWaitMs: 60_000,
+  jobRetentionMs: 10 * 60_000,
+  store: "memory",
+  storePath: ".data/jobs.json",
+};
+
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
+
+function readStore(value: string | undefined): JobStoreBackend {
+  return value === "file" ? "file" : defaults.store;
+}
+
+export function getQueueConfig(): QueueConfig {
+  return {
+    maxQueueDepth: readPositiveNumber(process.env.QUEUE_MAX_DEPTH, defaults.maxQueueDepth),
+    maxWaitMs: readPositiveNumber(process.env.QUEUE_MAX_WAIT_MS, defaults.maxWaitMs),
+    jobRetentionMs: readPositiveNumber(process.env.QUEUE_JOB_RETENTION_MS, defaults.jobRetentionMs),
+    store: readStore(process.env.QUEUE_STORE),
+    storePath: process.env.QUEUE_STORE_PATH ?? defaults.storePath,
+  };
+}
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { getQueueConfig } from "./queue-config";
+import { InternalQueue } from "./queue";
+import { generateRequestSchema } from "./schemas";
+import { usageTracker } from "./usage";
+
+function createQueue() {
+  return new InternalQueue({ ...getQueueConfig(), store: "memory" });
+}
+
+describe("worker ownership", () => {
+  it("only lets the connecting key act as the worker", () => {
+    const queue = createQueue();
+    const workerId = queue.connect(undefined, 1, undefined, "key-a");
+
+    expect(queue.mayActAsWorker(workerId, "key-a")).toBe(true);
+    expect(queue.mayActAsWorker(workerId, "key-b")).toBe(false);
+    expect(queue.mayActAsWorker(workerId, null)).toBe(false);
+  });
+
+  it("keeps the first key when the worker reconnects", () => {
+    const queue = createQueue();
+    const workerId = queue.connect("worker-1", 1, undefined, "key-a");
+    queue.connect(workerId, 2, undefined, "key-b");
+
+    expect(queue.mayActAsWorker(workerId, "key-a")).toBe(true);
+    expect(queue.mayActAsWorker(workerId, "key-b")).toBe(false);
+  });
+
+  it("lets anyone claim an ID no worker holds", () => {
+    const queue = createQueue();
+    const workerId = queue.connect(undefined, 1, undefined, "key-a");
+    queue.disconnect(workerId);
+
+    expect(queue.mayActAsWorker(workerId, "key-b")).toBe(true);
+  });
+});
+
+describe("cancelled results", () => {
+  it("count the partial output's tokens once, however often the worker posts it", async () => {
+    const queue = createQueue();
+    const apiKeyId = crypto.randomUUID();
+    const workerId = queue.connect(undefined, 1, undefined, apiKeyId);
+    const job = queue.submitJob(generateRequestSchema.parse({ prompt: "Hi" }), { apiKeyId });
+
+    await queue.pollMessages(workerId);
+    queue.cancelJob(job.id);
+
+    const report = {
+      cancelled: true,
+      result: { text: "Hel", usage: { prompt_tokens: 5, completion_tokens: 2 } },
+    };
+    expect(queue.completeJob(job.id, workerId, report)).toBe("accepted");
+    expect(queue.completeJob(job.id, workerId, report)).toBe("accepted");
+
+    expect(usageTracker.get(apiKeyId)).toMatchObject({ prompt_tokens: 5, completion_tokens: 2 });
+  });
+});
@@ -1,149 +1,1399 @@
 
-import { GenerateRequest } from "./schemas";
+import type { JobPriority, JobStatus, ModelAction, ModelOperationResponse, WorkerTelemetry } from "@/types/api";
+import type { z } from "zod";
+import type { TraceId } from "@/lib/debug/debugger";
+import { instrumentation } from "@/lib/monitoring/registry";
+import { getMaxPriority } from "./api-keys";
+import { ANONYMOUS_CLIENT_ID } from "./client";
+import { createJobStore, type JobStore } from "./job-store";
+import { getQueueConfig, type QueueConfig } from "./queue-config";
+import type {
+    dispatchedJobSchema,
+    modelCommandMessageSchema,
+    queueSnapshotSchema,
+    workerAckSchema,
+    workerMessageSchema,
+    workerSnapshotSchema,
+} from "./response-schemas";
+import { capPriority, FairScheduler, type DequeueOptions } from "./scheduler";
+import { getEmbeddingInputs, isEmbeddingRequest, type JobRequest } from "./embeddings";
+import { usageTracker } from "./usage";
+
+const WORKER_HEARTBEAT_TIMEOUT_MS = 15000;
+const JOB_TIMEOUT_MS = 60000;
+const SWEEP_INTERVAL_MS = 5000;
+const JOB_LEASE_MS = 20000;
+const MAX_JOB_ATTEMPTS = 3;
+const MAX_POLL_WAIT_MS = 30000;
+// A model command fails when its worker neither starts it nor reports
+// progress for this long; each report pushes the deadline back
+const MODEL_OPERATION_TIMEOUT_MS = 10 * 60 * 1000;
+// Throughput estimates look at this many recent jobs, and assume this
+// duration until any have finished
+const THROUGHPUT_WINDOW = 20;
+const DEFAULT_JOB_DURATION_MS = 10000;
+// Fair-queuing cost of a job that doesn't set max_tokens
+const DEFAULT_JOB_COST = 256;
+const CHARS_PER_TOKEN = 4;
+
+// Every legal status change. Terminal states have no way out.
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+    queued: ["running", "failed", "cancelled", "expired"],
+    running: ["queued", "succeeded", "failed", "cancelled", "expired"],
+    succeeded: [],
+    failed: [],
+    cancelled: [],
+    expired: [],
+};
+
+export interface JobLease {
+    workerId: string;
+    expiresAt: number;
+}
+
+export type WorkerReportOutcome = WorkerAck["outcome"];
+
+// What a worker posts when it stops working on a job
+export interface WorkerReport {
+    result?: any;
+    error?: string;
+    // Generation was interrupted; result holds the partial output
+    cancelled?: boolean;
+    // The engine refused the request as given, e.g. a parameter the loaded
+    // model can't honor. error says why.
+    rejected?: boolean;
+}
+
+export type JobEvent =
+    | { type: "delta"; text: string }
+    | { type: "finished"; job: Job };
+
+export type JobListener = (event: JobEvent) => void;
+
+export type DispatchedJob = z.infer<typeof dispatchedJobSchema>;
+
+export type ModelOperationStatus = ModelOperationResponse["status"];
+
+// What a worker is told to do with a model
+export type ModelCommand = z.infer<typeof modelCommandMessageSchema>;
+
+export interface ModelOperation {
+    id: string;
+    action: ModelAction;
+    modelId: string;
+    workerId: string;
+    status: ModelOperationStatus;
+    // 0-100, as reported by the worker
+    progress: number;
+    error?: string;
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    // Failed by the sweep if the worker hasn't moved it along by then
+    expiresAt: number;
+}
+
+export type ModelOperationListener = (operation: ModelOperation) => void;
+
+// Server -> worker, delivered through the poll endpoint
+export type WorkerMessage = z.infer<typeof workerMessageSchema>;
+
+// Worker -> server, posted to the poll endpoint
+export type WorkerUpstreamMessage =
+    | { type: "heartbeat"; telemetry?: WorkerTelemetry }
+    | { type: "renew"; id: string }
+    | { type: "chunk"; id: string; delta: string }
+    | { type: "model_progress"; id: string; progress: number }
+    // A model command finished; carries the worker's models afterwards
+    | { type: "model_result"; id: string; error?: string } & WorkerModels;
+
+export type WorkerAck = z.infer<typeof workerAckSchema>;
 
 export interface Job {
     id: string;
-    request: GenerateRequest;
+    request: JobRequest;
+    priority: JobPriority;
+    // Identity used for fair scheduling between callers
+    clientId: string;
+    // Key the job's usage is charged to; unset when auth is disabled
+    apiKeyId?: string;
     timestamp: number;
-    resolve: (response: any) => void;
-    reject: (error: any) => void;
+    // When the job last entered the queue; the maximum wait for attached
+    // jobs counts from here
+    queuedAt: number;
+    // Deadline for the job to finish, whether queued or running
+    expiresAt: number;
+    status: JobStatus;
+    // Held by the worker that claimed the job; undefined while it is queued
+    lease?: JobLease;
+    // Last worker to claim the job, kept after the lease is gone
+    workerId?: string;
+    attempts: number;
+    // Text streamed so far by the worker holding the lease
+    output: string;
+    startedAt?: number;
+    finishedAt?: number;
+    result?: any;
+    error?: string;
+    // Set when the failure has a cause callers can act on, e.g. INVALID_REQUEST
+    errorCode?: string;
+    // Submitted through the jobs API, so no caller holds a connection open
+    // for it. Only detached jobs survive a restart or an empty worker pool.
+    detached: boolean;
 }
 
-export class InternalQueue {
-    private pendingJobs: Map<string, Job> = new Map();
-    private queue: string[] = []; // Order of IDs
-    private lastWorkerHeartbeat = 0;
-    // Explicit connection state to prevent race conditions with polling
-    private isConnected = false;
+export interface SubmitJobOptions {
+    timeoutMs?: number;
+    clientId?: string;
+    apiKeyId?: string | null;
+    detached?: boolean;
+}
+
+export type QueueSnapshot = z.infer<typeof queueSnapshotSchema>;
 
-    constructor() {
-        this.lastWorkerHeartbeat = 0;
-        this.isConnected = false;
+export interface JobFilter {
+    status?: JobStatus[];
+    since?: number;
+    limit?: number;
+    // Only jobs submitted with this key
+    apiKeyId?: string;
+}
+
+export interface WorkerModels {
+    // Model currently in the worker's memory
+    model: string | null;
+    // Models the worker has downloaded and could load
+    models: string[];
+}
+
+export interface WorkerState {
+    id: string;
+    connectedAt: number;
+    lastHeartbeat: number;
+    // How many jobs the worker runs at once
+    capacity: number;
+    models: WorkerModels;
+    // Model a dispatched job asked the worker to switch to. Until the worker
+    // reports it loaded, or the job ends, the worker takes no more jobs.
+    switchingModel: string | null;
+    activeJobs: Set<string>;
+    outbox: WorkerMessage[];
+    // Set while the worker holds an open long-poll
+    wake: (() => void) | null;
+    // Latest report sent with a heartbeat
+    telemetry: WorkerTelemetry | null;
+    // Key the worker connected with; no other key may act as the worker
+    apiKeyId: string | null;
+}
+
+export type WorkerSnapshot = z.infer<typeof workerSnapshotSchema>;
+
+// Requests the queue has seen since the server started
+export interface RequestStats {
+    // Accepted jobs
+    total: number;
+    succeeded: number;
+    failed: number;
+    cancelled: number;
+    expired: number;
+    // Turned away at admission
+    rejected: number;
+    // Mean time from submission to result over recent successful jobs
+    avgLatencyMs: number | null;
+}
+
+type RequestCounts = Omit<RequestStats, "avgLatencyMs">;
+
+export class QueueError extends Error {
+    readonly code: string;
+    readonly details?: Record<string, unknown>;
+    // Hint for callers turned away by admission control
+    readonly retryAfterMs?: number;
+
+    constructor(code: string, message: string, options: { details?: Record<string, unknown>; retryAfterMs?: number } = {}) {
+        super(message);
+        this.name = "QueueError";
+        this.code = code;
+        this.details = options.details;
+        this.retryAfterMs = options.retryAfterMs;
     }
+}
+
+export function isTerminalStatus(status: JobStatus) {
+    return JOB_TRANSITIONS[status].length === 0;
+}
 
-    connect() {
-        console.log("Worker explicitly connected");
-        this.isConnected = true;
-        this.lastWorkerHeartbeat = Date.now();
+/**
+ * Fair-queuing cost in rough tokens: the generation budget, or the size of
+ * the texts to embed
+ */
+function jobCost(request: JobRequest): number {
+    if (isEmbeddingRequest(request)) {
+        const characters = getEmbeddingInputs(request).reduce((sum, input) => sum + input.length, 0);
+        return Math.max(1, Math.ceil(characters / CHARS_PER_TOKEN));
     }
+    return request.max_tokens ?? DEFAULT_JOB_COST;
+}
+
+/**
+ * Chat model a job asked for. Embedding jobs load their model next to the
+ * chat model, so they never need a switch.
+ */
+function getJobModel(request: JobRequest): string | undefined {
+    return isEmbeddingRequest(request) ? undefined : request.model;
+}
 
-    disconnect() {
-        console.log("Worker explicitly disconnected");
-        this.isConnected = false;
-        this.lastWorkerHeartbeat = 0;
+export class InternalQueue {
+    private jobs: Map<string, Job> = new Map();
+    private queue = new FairScheduler();
+    private listeners: Map<string, Set<JobListener>> = new Map();
+    private workers: Map<string, WorkerState> = new Map();
+    private modelOperations: Map<string, ModelOperation> = new Map();
+    private modelOperationListeners: Map<string, Set<ModelOperationListener>> = new Map();
+    private requestCounts: RequestCounts = { total: 0, succeeded: 0, failed: 0, cancelled: 0, expired: 0, rejected: 0 };
+    private sweepTimer: ReturnType<typeof setInterval> | null = null;
+    private readonly logger = instrumentation.getLogger("queue");
+    private readonly debugger = instrumentation.getDebugger("queue");
+    private readonly metrics = instrumentation.getMetrics("queue");
+    // One trace per job, from submission until it finishes
+    private jobTraces: Map<string, TraceId> = new Map();
+
+    constructor(
+        private readonly config: QueueConfig = getQueueConfig(),
+        private readonly store: JobStore = createJobStore(config),
+    ) {
+        this.restore();
 
-        // Reject all pending jobs immediately
-        this.clearQueue();
+        // Periodically drop dead workers, expired leases and stale jobs so
+        // nothing waits longer than it has to
+        this.sweepTimer = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS);
+        this.sweepTimer.unref?.();
     }
 
-    registerHeartbeat() {
-        if (this.isConnected) {
-            this.lastWorkerHeartbeat = Date.now();
+    /**
+     * Registers a worker. Reconnecting with a known ID refreshes its heartbeat
+     * and keeps its in-flight jobs; callers check mayActAsWorker() first.
+     */
+    connect(
+        workerId: string = crypto.randomUUID(),
+        capacity = 1,
+        models: WorkerModels = { model: null, models: [] },
+        apiKeyId: string | null = null,
+    ): string {
+        const existing = this.workers.get(workerId);
+        if (existing) {
+            existing.lastHeartbeat = Date.now();
+            existing.capacity = capacity;
+            existing.models = models;
+            return workerId;
         }
+
+        this.logger.info(`Worker ${workerId} connected`, { capacity, model: models.model });
+        this.workers.set(workerId, {
+            id: workerId,
+            connectedAt: Date.now(),
+            lastHeartbeat: Date.now(),
+            capacity,
+            models,
+            switchingModel: null,
+            activeJobs: new Set(),
+            outbox: [],
+            wake: null,
+            telemetry: null,
+            apiKeyId,
+        });
+        return workerId;
     }
 
-    // Deprecated for direct use, use connect/disconnect/registerHeartbeat
-    registerWorker() {
-        this.registerHeartbeat();
+    disconnect(workerId: string) {
+        if (!this.workers.has(workerId)) {
+            return false;
+        }
+
+        this.logger.info(`Worker ${workerId} disconnected`);
+        this.removeWorker(workerId);
+        return true;
     }
 
-    unregisterWorker() {
-        this.disconnect();
+    /**
+     * Whether a caller may act as the worker. A known worker needs the key it
+     * connected with. An unknown ID passes, and the caller then gets the
+     * usual answer for a worker that isn't connected.
+     */
+    mayActAsWorker(workerId: string, apiKeyId: string | null) {
+        const worker = this.workers.get(workerId);
+        return !worker || worker.apiKeyId === apiKeyId;
+    }
+
+    registerHeartbeat(workerId: string) {
+        const worker = this.workers.get(workerId);
+        if (!worker) {
+            return false;
+        }
+
+        worker.lastHeartbeat = Date.now();
+        return true;
+    }
+
+    isWorkerConnected(workerId: string) {
+        return this.workers.has(workerId);
     }
 
     isWorkerActive() {
-        // Must be explicitly connected AND have recent heartbeat
-        return this.isConnected && (Date.now() - this.lastWorkerHeartbeat < 15000);
+        this.sweepWorkers();
+        return this.getHealthyWorkers().length > 0;
+    }
+
+    /**
+     * Whether a healthy worker has the model loaded or downloaded
+     */
+    hasModel(modelId: string) {
+        return this.getHealthyWorkers().some((worker) =>
+            worker.models.model === modelId || worker.models.models.includes(modelId),
+        );
+    }
+
+    getWorkers(): WorkerSnapshot[] {
+        return Array.from(this.workers.values()).map((worker) => ({
+            id: worker.id,
+            connectedAt: worker.connectedAt,
+            lastHeartbeat: worker.lastHeartbeat,
+            activeJobs: worker.activeJobs.size,
+            capacity: worker.capacity,
+            model: worker.models.model,
+            models: worker.models.models,
+            healthy: this.isHealthy(worker),
+            telemetry: worker.telemetry,
+        }));
     }
 
+    /**
+     * Fails every queued job that a caller is waiting on. Detached jobs stay
+     * queued until a worker comes back or their wait runs out.
+     */
     clearQueue() {
-        for (const id of this.queue) {
-            const job = this.pendingJobs.get(id);
-            if (job) {
-                job.reject(new Error("Worker disconnected while processing or queued"));
-            }
+        for (const id of this.queue.ids()) {
+            const job = this.jobs.get(id);
+            if (!job || job.detached) continue;
+
+            this.queue.remove(id);
+            this.finishJob(job, "failed", { error: "No workers connected while the job was queued" });
         }
-        this.pendingJobs.clear();
-        this.queue = [];
     }
 
-    addJob(request: GenerateRequest): Promise<any> {
+    /**
+     * Queues a job and returns it straight away. Callers follow its progress
+     * through getJob() or waitForJob().
+     * Turns the job away with QUEUE_FULL when the queue is at its maximum
+     * depth or the job could not start within the maximum wait, and with
+     * QUOTA_EXCEEDED when its API key has used up its tokens for the period.
+     * A job naming a model no connected worker has downloaded gets
+     * MODEL_NOT_AVAILABLE.
+     */
+    submitJob(request: JobRequest, options: SubmitJobOptions = {}): Job {
         if (!this.isWorkerActive()) {
-            return Promise.reject(new Error("API Access is disabled or worker is not connected. Please enable it in the browser."));
+            throw new QueueError(
+                "WORKER_UNAVAILABLE",
+                "API Access is disabled or worker is not connected. Please enable it in the browser.",
+            );
         }
 
-        const id = crypto.randomUUID();
+        const model = getJobModel(request);
+        if (model && !this.hasModel(model)) {
+            this.recordRejection("model");
+            throw new QueueError("MODEL_NOT_AVAILABLE", `Model ${model} is not downloaded on any connected worker`, {
+                details: { model, available: this.getAvailableModels() },
+            });
+        }
 
-        return new Promise((resolve, reject) => {
-            const job: Job = {
-                id,
-                request,
-                timestamp: Date.now(),
-                resolve,
-                reject,
-            };
+        const quota = options.apiKeyId ? usageTracker.getQuota(options.apiKeyId) : null;
+        if (quota && quota.remaining <= 0) {
+            this.recordRejection("quota");
+            throw new QueueError("QUOTA_EXCEEDED", `Token quota of ${quota.limit} used up for this period`, {
+                details: { token_quota: quota.limit, used_tokens: quota.used, resets_at: quota.resetsAt },
+                retryAfterMs: quota.resetsAt - Date.now(),
+            });
+        }
 
-            this.pendingJobs.set(id, job);
-            this.queue.push(id);
+        if (this.queue.size >= this.config.maxQueueDepth) {
+            this.recordRejection("max_depth");
+            throw new QueueError("QUEUE_FULL", `Queue is full (${this.queue.size} jobs waiting)`, {
+                details: { reason: "max_depth", max_queue_depth: this.config.maxQueueDepth },
+                retryAfterMs: this.estimateWaitMs(1),
+            });
+        }
+
+        const now = Date.now();
+        const job: Job = {
+            id: crypto.randomUUID(),
+            request,
+            // Keys can't raise their jobs above the class they are allowed
+            priority: capPriority(request.priority ?? "normal", getMaxPriority(options.apiKeyId ?? null)),
+            clientId: options.clientId ?? ANONYMOUS_CLIENT_ID,
+            ...(options.apiKeyId ? { apiKeyId: options.apiKeyId } : {}),
+            timestamp: now,
+            queuedAt: now,
+            expiresAt: now + (options.timeoutMs ?? JOB_TIMEOUT_MS),
+            status: "queued",
+            attempts: 0,
+            output: "",
+            detached: options.detached ?? false,
+        };
+
+        this.queue.enqueue(job.id, this.toScheduledJob(job));
+
+        // Judge the wait from where the job actually landed, which depends
+        // on its priority and its client's share. Until some jobs have
+        // finished there is nothing to base the estimate on, so only the
+        // depth limit applies.
+        const estimatedWaitMs = this.estimateWaitMs(this.queue.position(job.id) ?? this.queue.size);
+        if (this.getRecentJobDurationMs() !== null && estimatedWaitMs > this.config.maxWaitMs) {
+            this.queue.remove(job.id);
+            this.recordRejection("max_wait");
+            throw new QueueError("QUEUE_FULL", "Queue is too busy to start the job within the maximum wait", {
+                details: { reason: "max_wait", estimated_wait_ms: estimatedWaitMs, max_wait_ms: this.config.maxWaitMs },
+                retryAfterMs: estimatedWaitMs - this.config.maxWaitMs,
+            });
+        }
+
+        this.jobs.set(job.id, job);
+        this.store.save(job);
+        this.requestCounts.total += 1;
+        if (job.apiKeyId) {
+            usageTracker.recordRequest(job.apiKeyId);
+        }
+
+        this.logger.info(`Job ${job.id} added to queue (${job.priority}, client ${job.clientId}). Queue size: ${this.queue.size}`);
+        this.jobTraces.set(job.id, this.debugger.startTrace("job", {
+            job_id: job.id,
+            priority: job.priority,
+            client_id: job.clientId,
+            ...(model ? { model } : {}),
+        }));
+        this.wakeIdleWorker();
+        return job;
+    }
+
+    /**
+     * Resolves with the worker's result once the job succeeds and rejects
+     * when it ends in any other state.
+     */
+    waitForJob(id: string): Promise<any> {
+        const job = this.jobs.get(id);
+        if (!job) {
+            return Promise.reject(new QueueError("JOB_NOT_FOUND", "Job not found"));
+        }
 
-            console.log(`Job ${id} added to queue. Queue size: ${this.queue.length}`);
+        return new Promise((resolve, reject) => {
+            this.subscribe(id, (event) => {
+                if (event.type !== "finished") return;
 
-            // Cleanup timeout (60s)
-            setTimeout(() => {
-                const currentJob = this.pendingJobs.get(id);
-                if (currentJob) {
-                    currentJob.reject(new Error("Request timed out waiting for processing"));
-                    this.pendingJobs.delete(id);
-                    this.queue = this.queue.filter(qId => qId !== id);
+                const message = event.job.error ?? `Job ${event.job.status}`;
+                if (event.job.status === "succeeded") {
+                    resolve(event.job.result);
+                } else if (event.job.errorCode) {
+                    reject(new QueueError(event.job.errorCode, message));
+                } else {
+                    reject(new Error(message));
                 }
-            }, 60000);
+            });
+        });
+    }
+
+    /**
+     * Follows a job's output. Late subscribers first receive the text
+     * streamed so far, and the final event if the job has already finished.
+     * @returns Function that stops the subscription
+     */
+    subscribe(id: string, listener: JobListener): () => void {
+        const job = this.jobs.get(id);
+        if (!job) {
+            throw new QueueError("JOB_NOT_FOUND", "Job not found");
+        }
+
+        if (job.output) {
+            listener({ type: "delta", text: job.output });
+        }
+
+        if (isTerminalStatus(job.status)) {
+            listener({ type: "finished", job });
+            return () => { };
+        }
+
+        const listeners = this.listeners.get(id) ?? new Set();
+        listeners.add(listener);
+        this.listeners.set(id, listeners);
+
+        return () => {
+            listeners.delete(listener);
+        };
+    }
+
+    addJob(request: JobRequest): Promise<any> {
+        try {
+            const job = this.submitJob(request);
+            return this.waitForJob(job.id);
+        } catch (error) {
+            return Promise.reject(error);
+        }
+    }
+
+    getJob(id: string): Job | null {
+        return this.jobs.get(id) ?? null;
+    }
+
+    /**
+     * Lists known jobs, newest first
+     */
+    listJobs(filter: JobFilter = {}): Job[] {
+        return Array.from(this.jobs.values())
+            .filter((job) => !filter.status || filter.status.includes(job.status))
+            .filter((job) => filter.since === undefined || job.timestamp >= filter.since)
+            .filter((job) => filter.apiKeyId === undefined || job.apiKeyId === filter.apiKeyId)
+            .sort((a, b) => b.timestamp - a.timestamp)
+            .slice(0, filter.limit);
+    }
+
+    /**
+     * 1-based position of a queued job, or null once it has left the queue
+     */
+    getQueuePosition(id: string): number | null {
+        return this.queue.position(id);
+    }
+
+    getSnapshot(): QueueSnapshot {
+        const workers = this.getWorkers();
+        return {
+            ...this.queue.snapshot(),
+            running: workers.reduce((sum, worker) => sum + worker.activeJobs, 0),
+            workers,
+        };
+    }
+
+    /**
+     * Rough time until the job at a queue position starts, from the pool's
+     * capacity and how long recent jobs took
+     */
+    estimateWaitMs(position: number): number {
+        const capacity = this.getHealthyWorkers().reduce((sum, worker) => sum + worker.capacity, 0) || 1;
+        const avgDurationMs = this.getRecentJobDurationMs() ?? DEFAULT_JOB_DURATION_MS;
+
+        return Math.round(Math.ceil(position / capacity) * avgDurationMs);
+    }
+
+    /**
+     * Request counts since the server started, with the average latency,
+     * queue wait included, of the last few successful jobs
+     */
+    getRequestStats(): RequestStats {
+        const recent = (name: string) => this.metrics.getMetrics(name).slice(-THROUGHPUT_WINDOW);
+        const durations = recent("job.duration");
+        const waits = recent("job.wait");
+        const total = [...durations, ...waits].reduce((sum, metric) => sum + metric.value, 0);
+
+        return {
+            ...this.requestCounts,
+            avgLatencyMs: durations.length > 0 ? total / durations.length : null,
+        };
+    }
+
+    /**
+     * Average run time of the last few successful jobs, or null before any
+     */
+    private getRecentJobDurationMs(): number | null {
+        const recent = this.metrics.getMetrics("job.duration").slice(-THROUGHPUT_WINDOW);
+        if (recent.length === 0) return null;
+
+        return recent.reduce((sum, metric) => sum + metric.value, 0) / recent.length;
+    }
+
+    cancelJob(id: string): Job {
+        const job = this.jobs.get(id);
+        if (!job) {
+            throw new QueueError("JOB_NOT_FOUND", "Job not found");
+        }
+
+        if (isTerminalStatus(job.status)) {
+            throw new QueueError("JOB_NOT_CANCELLABLE", `Job already ${job.status}`);
+        }
+
+        this.queue.remove(id);
+        this.finishJob(job, "cancelled", { error: "Job was cancelled" });
+        return job;
+    }
+
+    /**
+     * Moves a queued job to the front of the line, ahead of all priority
+     * classes
+     */
+    promoteJob(id: string): Job {
+        const job = this.jobs.get(id);
+        if (!job) {
+            throw new QueueError("JOB_NOT_FOUND", "Job not found");
+        }
+
+        if (job.status !== "queued") {
+            throw new QueueError("JOB_NOT_QUEUED", `Job is ${job.status}, only queued jobs can be promoted`);
+        }
+
+        this.queue.enqueueFront(job.id, this.toScheduledJob(job));
+        return job;
+    }
+
+    /**
+     * Called by the worker poll endpoint. Returns the worker's pending control
+     * messages and, capacity permitting, its next job. With waitMs the call
+     * holds until something arrives or the wait runs out.
+     * @returns null when the worker is not connected
+     */
+    async pollMessages(workerId: string, waitMs = 0, signal?: AbortSignal): Promise<WorkerMessage[] | null> {
+        const messages = this.collectMessages(workerId);
+        if (messages === null || messages.length > 0 || waitMs <= 0) {
+            return messages;
+        }
+
+        await this.waitForWake(workerId, Math.min(waitMs, MAX_POLL_WAIT_MS), signal);
+        return this.collectMessages(workerId);
+    }
+
+    /**
+     * Applies a batch of messages posted by a worker. Any batch, even an
+     * empty one, counts as a heartbeat.
+     * @returns One ack per message, or null when the worker is not connected
+     */
+    receiveMessages(workerId: string, messages: WorkerUpstreamMessage[]): WorkerAck[] | null {
+        if (!this.registerHeartbeat(workerId)) {
+            return null;
+        }
+
+        return messages.map((message): WorkerAck => {
+            if (message.type === "renew") {
+                const outcome = this.renewLease(message.id, workerId) ? "accepted" : "lease_lost";
+                return { type: message.type, id: message.id, outcome };
+            }
+
+            if (message.type === "chunk") {
+                return { type: message.type, id: message.id, outcome: this.appendOutput(message.id, workerId, message.delta) };
+            }
+
+            if (message.type === "model_progress" || message.type === "model_result") {
+                return { type: message.type, id: message.id, outcome: this.updateModelOperation(workerId, message) };
+            }
+
+            const worker = this.workers.get(workerId);
+            if (worker && message.telemetry) {
+                worker.telemetry = message.telemetry;
+                this.setLoadedModel(worker, message.telemetry.model);
+            }
+
+            return { type: message.type, outcome: "accepted" };
         });
     }
 
     /**
-     * Called by the worker polling endpoint to get the next job
+     * Hands the next job to a worker.
+     * A worker only receives a job when it has spare capacity and no other
+     * healthy worker is less busy, so work spreads across the pool instead of
+     * piling onto the fastest poller.
      */
-    getNextJob(): { id: string; request: GenerateRequest } | null {
-        // Only update heartbeat if we are supposed to be connected.
-        // If isConnected is false, this poll is likely a straggler from a disabled client
-        // and should NOT re-enable the queue.
-        if (!this.isConnected) {
+    private getNextJob(workerId: string): DispatchedJob | null {
+        // Unknown workers are stragglers from a disabled client and must
+        // not be handed work
+        if (!this.registerHeartbeat(workerId)) {
             return null;
         }
 
-        this.registerHeartbeat();
+        this.sweep();
 
-        if (this.queue.length === 0) return null;
+        const worker = this.workers.get(workerId);
+        if (!worker || this.queue.size === 0) return null;
+        if (worker.activeJobs.size >= worker.capacity) return null;
+        // A worker with a model command pending drains rather than taking more work
+        if (this.getPendingModelOperation(workerId)) return null;
+        if (worker.switchingModel) return null;
 
-        const id = this.queue.shift();
+        const options = this.getDequeueOptions(worker);
+        const next = this.queue.peek(options);
+        if (!next) return null;
+
+        // Leave the job to a less busy worker that can run it as well
+        const leastBusy = Math.min(
+            ...this.getAvailableWorkers()
+                .filter((w) => this.canRunModel(w, next.model))
+                .map((w) => w.activeJobs.size),
+        );
+        if (worker.activeJobs.size > leastBusy) return null;
+
+        const id = this.queue.dequeue(options);
         if (!id) return null;
 
-        const job = this.pendingJobs.get(id);
+        const job = this.jobs.get(id);
         if (!job) return null;
 
-        return { id: job.id, request: job.request };
+        // The worker loads the job's model before generating. Whether that
+        // worked is only known from its telemetry or the job's outcome.
+        const model = getJobModel(job.request);
+        if (model && model !== worker.models.model) {
+            worker.switchingModel = model;
+        }
+
+        this.transition(job, "running");
+        job.startedAt = Date.now();
+        job.lease = { workerId, expiresAt: Date.now() + JOB_LEASE_MS };
+        job.workerId = workerId;
+        job.attempts += 1;
+        worker.activeJobs.add(id);
+        this.store.save(job);
+
+        return { id: job.id, request: job.request, lease_expires_at: job.lease.expiresAt };
+    }
+
+    /**
+     * Extends the lease on a claimed job. Fails when the worker no longer
+     * holds it, which tells the worker to abandon the job.
+     */
+    renewLease(id: string, workerId: string): JobLease | null {
+        const job = this.jobs.get(id);
+        if (!job?.lease || job.lease.workerId !== workerId) {
+            return null;
+        }
+
+        this.registerHeartbeat(workerId);
+        job.lease.expiresAt = Date.now() + JOB_LEASE_MS;
+        return job.lease;
     }
 
     /**
-     * Called by the worker result endpoint to complete a job
+     * Called by the worker chunk endpoint while a job is generating.
+     * Counts as a lease renewal.
      */
-    completeJob(id: string, result: any, error?: string) {
-        const job = this.pendingJobs.get(id);
+    appendOutput(id: string, workerId: string, text: string): WorkerReportOutcome {
+        const job = this.jobs.get(id);
 
-        if (job) {
-            if (error) {
-                job.reject(new Error(error));
-            } else {
-                job.resolve(result);
+        if (!job || isTerminalStatus(job.status)) {
+            return "not_found";
+        }
+
+        if (!this.renewLease(id, workerId)) {
+            return "lease_lost";
+        }
+
+        job.output += text;
+        this.emit(job, { type: "delta", text });
+        return "accepted";
+    }
+
+    /**
+     * Called by the worker result endpoint to complete a job.
+     * Results are only accepted from the worker currently holding the lease.
+     * The one exception is a worker acknowledging a cancellation: it may
+     * attach the partial output to the job it was told to stop.
+     */
+    completeJob(id: string, workerId: string, report: WorkerReport): WorkerReportOutcome {
+        const job = this.jobs.get(id);
+
+        if (!job) {
+            return "not_found";
+        }
+
+        if (report.cancelled && (job.status === "cancelled" || job.status === "expired")) {
+            if (job.workerId !== workerId) {
+                return "lease_lost";
+            }
+            // Only the first report counts; a retried post must not charge twice
+            if (job.result !== undefined) {
+                return "accepted";
             }
-            this.pendingJobs.delete(id);
-            return true;
+            job.result = report.result;
+            this.store.save(job);
+            this.recordUsage(job);
+            return "accepted";
+        }
+
+        if (isTerminalStatus(job.status)) {
+            return "not_found";
+        }
+
+        if (job.lease?.workerId !== workerId) {
+            return "lease_lost";
         }
-        return false;
+
+        if (report.cancelled) {
+            this.finishJob(job, "cancelled", { result: report.result, error: "Job was cancelled by the worker" });
+        } else if (report.rejected) {
+            this.finishJob(job, "failed", { error: report.error ?? "Request rejected by the worker", errorCode: "INVALID_REQUEST" });
+        } else if (report.error) {
+            // A failure mid-generation may come with the output so far
+            this.finishJob(job, "failed", { result: report.result, error: report.error });
+        } else {
+            this.finishJob(job, "succeeded", { result: report.result });
+        }
+        return "accepted";
     }
 
     getPendingCount() {
-        return this.queue.length;
+        return this.queue.size;
+    }
+
+    /**
+     * Queues a model command for a worker. The worker gets it once its
+     * running jobs are done, and takes no new jobs until it has reported back.
+     * Without a worker ID, the least busy worker gets it, preferring one
+     * that has the model downloaded (load) or in memory (unload).
+     * Fails with WORKER_UNAVAILABLE when there is no such worker, and with
+     * MODEL_OPERATION_IN_PROGRESS when the worker already has a command pending.
+     */
+    submitModelCommand(action: ModelAction, modelId: string, workerId?: string): ModelOperation {
+        this.sweepWorkers();
+        const worker = workerId ? this.workers.get(workerId) : this.pickWorkerForModel(action, modelId);
+
+        if (!worker || !this.isHealthy(worker)) {
+            throw new QueueError(
+                "WORKER_UNAVAILABLE",
+                workerId ? `Worker ${workerId} is not connected` : "No worker is connected to run the command",
+            );
+        }
+
+        const pending = this.getPendingModelOperation(worker.id);
+        if (pending) {
+            throw new QueueError("MODEL_OPERATION_IN_PROGRESS", `Worker ${worker.id} is still running operation ${pending.id}`, {
+                details: { operation_id: pending.id },
+            });
+        }
+
+        const now = Date.now();
+        const operation: ModelOperation = {
+            id: crypto.randomUUID(),
+            action,
+            modelId,
+            workerId: worker.id,
+            status: "queued",
+            progress: 0,
+            createdAt: now,
+            expiresAt: now + MODEL_OPERATION_TIMEOUT_MS,
+        };
+        this.modelOperations.set(operation.id, operation);
+
+        this.logger.info(`Model operation ${operation.id} queued: ${action} ${modelId} on worker ${worker.id}`);
+        worker.wake?.();
+        return operation;
+    }
+
+    getModelOperation(id: string): ModelOperation | null {
+        return this.modelOperations.get(id) ?? null;
+    }
+
+    /**
+     * Follows a model operation. The listener gets the current state
+     * straight away, then every change until the operation finishes.
+     * @returns Function that stops the subscription
+     */
+    subscribeModelOperation(id: string, listener: ModelOperationListener): () => void {
+        const operation = this.modelOperations.get(id);
+        if (!operation) {
+            throw new QueueError("MODEL_OPERATION_NOT_FOUND", "Model operation not found");
+        }
+
+        listener(operation);
+        if (operation.finishedAt) {
+            return () => { };
+        }
+
+        let listeners = this.modelOperationListeners.get(id);
+        if (!listeners) {
+            listeners = new Set();
+            this.modelOperationListeners.set(id, listeners);
+        }
+        listeners.add(listener);
+
+        return () => {
+            listeners?.delete(listener);
+        };
+    }
+
+    private toScheduledJob(job: Job) {
+        return {
+            clientId: job.clientId,
+            priority: job.priority,
+            cost: jobCost(job.request),
+            model: getJobModel(job.request),
+        };
+    }
+
+    private getDequeueOptions(worker: WorkerState): DequeueOptions {
+        return {
+            canRun: (job) => this.canRunModel(worker, job.model),
+            model: worker.models.model,
+        };
+    }
+
+    /**
+     * A job without a model runs on whatever is loaded. Switching models
+     * would pull the engine out from under running jobs, so only an idle
+     * worker takes a job for another of its downloaded models.
+     */
+    private canRunModel(worker: WorkerState, model?: string) {
+        if (!model || worker.models.model === model) return true;
+        return worker.activeJobs.size === 0 && worker.models.models.includes(model);
+    }
+
+    private getAvailableModels() {
+        return Array.from(new Set(this.getHealthyWorkers().flatMap((worker) => [
+            ...(worker.models.model ? [worker.models.model] : []),
+            ...worker.models.models,
+        ])));
+    }
+
+    private collectMessages(workerId: string): WorkerMessage[] | null {
+        const worker = this.workers.get(workerId);
+        if (!worker) return null;
+
+        const command = this.startModelOperation(worker);
+        const job = this.getNextJob(workerId);
+        const messages = worker.outbox.splice(0);
+        if (command) {
+            messages.push({ type: "model", command });
+        }
+        if (job) {
+            messages.push({ type: "job", job });
+        }
+        return messages;
+    }
+
+    private waitForWake(workerId: string, waitMs: number, signal?: AbortSignal): Promise<void> {
+        const worker = this.workers.get(workerId);
+        if (!worker) return Promise.resolve();
+
+        // A newer poll from the same worker replaces the old one
+        worker.wake?.();
+
+        return new Promise((resolve) => {
+            const done = () => {
+                clearTimeout(timer);
+                signal?.removeEventListener("abort", done);
+                if (worker.wake === done) {
+                    worker.wake = null;
+                }
+                worker.lastHeartbeat = Date.now();
+                resolve();
+            };
+
+            const timer = setTimeout(done, waitMs);
+            signal?.addEventListener("abort", done);
+            worker.wake = done;
+        });
+    }
+
+    /**
+     * Wakes the least busy worker that is waiting on a long-poll, so a new
+     * job is dispatched without waiting for the next poll
+     */
+    private wakeIdleWorker() {
+        const waiting = this.getAvailableWorkers().filter((worker) =>
+            worker.wake && this.queue.peek(this.getDequeueOptions(worker)),
+        );
+        if (waiting.length === 0) return;
+
+        waiting.sort((a, b) => a.activeJobs.size - b.activeJobs.size);
+        waiting[0].wake?.();
+    }
+
+    private sendToWorker(workerId: string, message: WorkerMessage) {
+        const worker = this.workers.get(workerId);
+        if (!worker) return;
+
+        worker.outbox.push(message);
+        worker.wake?.();
+    }
+
+    private transition(job: Job, status: JobStatus) {
+        if (!JOB_TRANSITIONS[job.status].includes(status)) {
+            throw new Error(`Invalid job transition ${job.status} -> ${status} for job ${job.id}`);
+        }
+        job.status = status;
+    }
+
+    private emit(job: Job, event: JobEvent) {
+        for (const listener of Array.from(this.listeners.get(job.id) ?? [])) {
+            listener(event);
+        }
+    }
+
+    /**
+     * Moves a job into a terminal state, frees its worker slot and wakes
+     * anyone waiting on it
+     */
+    private finishJob(job: Job, status: JobStatus, outcome: { result?: any; error?: string; errorCode?: string }) {
+        this.transition(job, status);
+
+        if (job.lease) {
+            // Tell the worker to stop if it is still generating for nobody
+            if (status === "cancelled" || status === "expired") {
+                this.sendToWorker(job.lease.workerId, { type: "cancel", id: job.id });
+            }
+            const worker = this.workers.get(job.lease.workerId);
+            worker?.activeJobs.delete(job.id);
+            job.lease = undefined;
+            if (worker) {
+                this.endModelSwitch(worker, status === "succeeded" ? getJobModel(job.request) : undefined);
+            }
+
+            // The freed slot can take the next queued job, or let a model
+            // command that was waiting for the worker to go idle start
+            if (worker?.activeJobs.size === 0 && this.getPendingModelOperation(worker.id)) {
+                worker.wake?.();
+            } else if (this.queue.size > 0) {
+                this.wakeIdleWorker();
+            }
+        }
+
+        job.finishedAt = Date.now();
+        job.result = outcome.result;
+        job.error = outcome.error;
+        job.errorCode = outcome.errorCode;
+
+        this.metrics.increment(`job.${status}`);
+        if (status in this.requestCounts) {
+            this.requestCounts[status as keyof RequestCounts] += 1;
+        }
+        if (status === "succeeded" && job.startedAt) {
+            this.metrics.record("job.duration", job.finishedAt - job.startedAt);
+            this.metrics.record("job.wait", job.startedAt - job.timestamp);
+        }
+
+        this.store.save(job);
+        this.recordUsage(job);
+        this.endJobTrace(job);
+        this.emit(job, { type: "finished", job });
+        this.listeners.delete(job.id);
+    }
+
+    private endJobTrace(job: Job) {
+        const traceId = this.jobTraces.get(job.id);
+        if (!traceId) return;
+
+        this.debugger.addMetadata(traceId, { attempts: job.attempts, worker_id: job.workerId ?? null });
+        this.debugger.endTrace(traceId, { status: job.status, ...(job.errorCode ? { error_code: job.errorCode } : {}) });
+        this.jobTraces.delete(job.id);
+    }
+
+    private recordRejection(reason: string) {
+        this.requestCounts.rejected += 1;
+        this.metrics.increment("job.rejected", 1, { reason });
+    }
+
+    // Partial output of a cancelled job still took GPU time, so it counts too
+    private recordUsage(job: Job) {
+        if (job.apiKeyId && job.result) {
+            usageTracker.recordTokens(job.apiKeyId, job.result.usage);
+        }
+    }
+
+    /**
+     * Records the chat model a worker reports in memory. The model is
+     * downloaded too, whether or not the worker listed it when it connected.
+     */
+    private setLoadedModel(worker: WorkerState, model: string | null) {
+        worker.models.model = model;
+        if (model && !worker.models.models.includes(model)) {
+            worker.models.models.push(model);
+        }
+        if (model === worker.switchingModel) {
+            worker.switchingModel = null;
+        }
+    }
+
+    /**
+     * Called when a worker's job ends. A switching worker runs only the job
+     * that switched it, so whatever the outcome the switch is over.
+     * @param loadedModel - The job's model, when the job succeeded and the
+     * model therefore loaded
+     */
+    private endModelSwitch(worker: WorkerState, loadedModel?: string) {
+        if (!worker.switchingModel) return;
+
+        if (loadedModel === worker.switchingModel) {
+            this.setLoadedModel(worker, loadedModel);
+        }
+        worker.switchingModel = null;
+    }
+
+    private getPendingModelOperation(workerId: string): ModelOperation | null {
+        for (const operation of Array.from(this.modelOperations.values())) {
+            if (operation.workerId === workerId && !operation.finishedAt) {
+                return operation;
+            }
+        }
+        return null;
+    }
+
+    private pickWorkerForModel(action: ModelAction, modelId: string): WorkerState | null {
+        // Unload where the model is in memory, load where it is already downloaded
+        const rank = (worker: WorkerState) => {
+            if (action === "unload") return worker.models.model === modelId ? 0 : 1;
+            if (action === "load") return worker.models.models.includes(modelId) ? 0 : 1;
+            return 0;
+        };
+
+        return this.getHealthyWorkers().sort((a, b) =>
+            rank(a) - rank(b) || a.activeJobs.size - b.activeJobs.size,
+        )[0] ?? null;
+    }
+
+    /**
+     * Hands a worker its queued model command once it is idle
+     */
+    private startModelOperation(worker: WorkerState): ModelCommand | null {
+        const operation = this.getPendingModelOperation(worker.id);
+        if (!operation || operation.status !== "queued" || worker.activeJobs.size > 0) {
+            return null;
+        }
+
+        operation.status = "running";
+        operation.startedAt = Date.now();
+        operation.expiresAt = operation.startedAt + MODEL_OPERATION_TIMEOUT_MS;
+        this.emitModelOperation(operation);
+        return { id: operation.id, action: operation.action, model_id: operation.modelId };
+    }
+
+    private updateModelOperation(
+        workerId: string,
+        message: Extract<WorkerUpstreamMessage, { type: "model_progress" | "model_result" }>,
+    ): WorkerReportOutcome {
+        const operation = this.modelOperations.get(message.id);
+        if (!operation || operation.workerId !== workerId || operation.finishedAt) {
+            return "not_found";
+        }
+
+        if (message.type === "model_progress") {
+            operation.progress = Math.max(operation.progress, Math.min(100, message.progress));
+            operation.expiresAt = Date.now() + MODEL_OPERATION_TIMEOUT_MS;
+            this.emitModelOperation(operation);
+            return "accepted";
+        }
+
+        const worker = this.workers.get(workerId);
+        if (worker) {
+            worker.models = { model: message.model, models: message.models };
+        }
+        this.finishModelOperation(operation, message.error);
+
+        // Jobs held back while the command ran can go out now
+        if (this.queue.size > 0) {
+            this.wakeIdleWorker();
+        }
+        return "accepted";
+    }
+
+    private finishModelOperation(operation: ModelOperation, error?: string) {
+        operation.status = error ? "failed" : "succeeded";
+        operation.error = error;
+        operation.finishedAt = Date.now();
+        if (!error) {
+            operation.progress = 100;
+        }
+
+        if (error) {
+            this.logger.warn(`Model operation ${operation.id} failed: ${error}`);
+        } else {
+            this.logger.info(`Model operation ${operation.id} succeeded`);
+        }
+        this.emitModelOperation(operation);
+        this.modelOperationListeners.delete(operation.id);
+    }
+
+    private emitModelOperation(operation: ModelOperation) {
+        for (const listener of Array.from(this.modelOperationListeners.get(operation.id) ?? [])) {
+            listener(operation);
+        }
+    }
+
+    private isHealthy(worker: WorkerState) {
+        // An open long-poll is as good as a heartbeat
+        return worker.wake !== null || Date.now() - worker.lastHeartbeat < WORKER_HEARTBEAT_TIMEOUT_MS;
+    }
+
+    private getHealthyWorkers() {
+        return Array.from(this.workers.values()).filter((worker) => this.isHealthy(worker));
+    }
+
+    private getAvailableWorkers() {
+        return this.getHealthyWorkers().filter((worker) =>
+            worker.activeJobs.size < worker.capacity && !this.getPendingModelOperation(worker.id),
+        );
+    }
+
+    private sweep() {
+        this.sweepWorkers();
+        this.sweepLeases();
+        this.sweepJobs();
+        this.sweepModelOperations();
+    }
+
+    private sweepWorkers() {
+        for (const worker of Array.from(this.workers.values())) {
+            if (!this.isHealthy(worker)) {
+                this.logger.warn(`Worker ${worker.id} missed its heartbeat, removing it`);
+                this.removeWorker(worker.id);
+            }
+        }
+    }
+
+    private sweepLeases() {
+        const now = Date.now();
+        for (const job of Array.from(this.jobs.values())) {
+            if (job.lease && job.lease.expiresAt <= now) {
+                this.logger.warn(`Lease on job ${job.id} held by worker ${job.lease.workerId} expired`);
+                this.requeueJob(job);
+            }
+        }
+    }
+
+    /**
+     * Expires jobs past their deadline and forgets finished jobs once
+     * their retention window has passed
+     */
+    private sweepJobs() {
+        const now = Date.now();
+        for (const job of Array.from(this.jobs.values())) {
+            if (!isTerminalStatus(job.status) && job.expiresAt <= now) {
+                this.queue.remove(job.id);
+                this.finishJob(job, "expired", { error: "Request timed out waiting for processing" });
+            } else if (job.status === "queued" && !job.detached && now - job.queuedAt > this.config.maxWaitMs) {
+                // Only callers holding a connection open are held to the
+                // maximum wait; detached jobs run until their own deadline
+                this.queue.remove(job.id);
+                this.finishJob(job, "expired", { error: "Job waited longer than the maximum queue wait" });
+            } else if (job.finishedAt && now - job.finishedAt > this.config.jobRetentionMs) {
+                this.jobs.delete(job.id);
+                this.store.delete(job.id);
+            }
+        }
+    }
+
+    private sweepModelOperations() {
+        const now = Date.now();
+        let failed = false;
+        for (const operation of Array.from(this.modelOperations.values())) {
+            if (!operation.finishedAt && operation.expiresAt <= now) {
+                // Frees the worker to take jobs and other commands again
+                this.finishModelOperation(
+                    operation,
+                    operation.status === "queued"
+                        ? "Worker didn't start the command in time"
+                        : "Worker stopped reporting on the command",
+                );
+                failed = true;
+            } else if (operation.finishedAt && now - operation.finishedAt > this.config.jobRetentionMs) {
+                this.modelOperations.delete(operation.id);
+            }
+        }
+
+        if (failed && this.queue.size > 0) {
+            this.wakeIdleWorker();
+        }
+    }
+
+    /**
+     * Removes a worker and puts only the jobs it had claimed back in the
+     * queue. Queued jobs stay put for the remaining workers, unless none are left.
+     */
+    private removeWorker(workerId: string) {
+        const worker = this.workers.get(workerId);
+        if (!worker) return;
+
+        this.workers.delete(workerId);
+        worker.wake?.();
+
+        const operation = this.getPendingModelOperation(workerId);
+        if (operation) {
+            this.finishModelOperation(operation, "Worker disconnected before the command finished");
+        }
+
+        for (const id of Array.from(worker.activeJobs)) {
+            const job = this.jobs.get(id);
+            if (job) {
+                this.requeueJob(job);
+            }
+        }
+
+        if (this.workers.size === 0) {
+            this.clearQueue();
+        }
+    }
+
+    /**
+     * Takes a job away from its worker and queues it again at the front,
+     * or fails it once it has used up its attempts.
+     */
+    private requeueJob(job: Job) {
+        if (job.attempts >= MAX_JOB_ATTEMPTS) {
+            this.finishJob(job, "failed", {
+                error: `Job failed after ${job.attempts} attempts: worker stopped responding`,
+            });
+            return;
+        }
+
+        // Streamed tokens can't be taken back from the caller, so a retry
+        // would duplicate them
+        if (job.output && !isEmbeddingRequest(job.request) && job.request.stream) {
+            this.finishJob(job, "failed", { error: "Worker stopped responding mid-stream" });
+            return;
+        }
+
+        if (job.lease) {
+            const worker = this.workers.get(job.lease.workerId);
+            worker?.activeJobs.delete(job.id);
+            if (worker) {
+                this.endModelSwitch(worker);
+            }
+            job.lease = undefined;
+        }
+
+        job.output = "";
+        job.queuedAt = Date.now();
+        this.transition(job, "queued");
+        this.store.save(job);
+        this.logger.info(`Job ${job.id} re-queued (attempt ${job.attempts} of ${MAX_JOB_ATTEMPTS})`);
+        this.queue.enqueueFront(job.id, this.toScheduledJob(job));
+        this.wakeIdleWorker();
+    }
+
+    /**
+     * Reloads jobs saved before a restart. Detached jobs go back in the
+     * queue, with claimed ones first since their worker's lease died with
+     * the old process. Jobs whose caller was connected to the old process
+     * can't be delivered and are failed.
+     */
+    private restore() {
+        const saved = this.store.load().sort((a, b) => a.timestamp - b.timestamp);
+        const now = Date.now();
+        let requeued = 0;
+
+        for (const job of saved) {
+            this.jobs.set(job.id, job);
+            if (isTerminalStatus(job.status)) continue;
+
+            if (!job.detached) {
+                job.lease = undefined;
+                this.finishJob(job, "failed", { error: "Server restarted before the job finished" });
+                continue;
+            }
+
+            if (job.status === "running") {
+                this.requeueJob(job);
+            } else {
+                // Workers need a moment to reconnect, so the wait starts over
+                job.queuedAt = now;
+                this.queue.enqueue(job.id, this.toScheduledJob(job));
+            }
+
+            if (job.status === "queued") requeued++;
+        }
+
+        if (saved.length > 0) {
+            this.logger.info(`Restored ${saved.length} jobs from the job store, ${requeued} queued`);
+        }
     }
 }
 
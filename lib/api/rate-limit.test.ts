@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import type { ApiKeyRecord } from "./api-keys";
+import { getClientIp } from "./client";
+import { getLimitsConfig, type LimitsConfig } from "./limits-config";
+import { checkRateLimit, getRateLimitClass, rateLimitHeaders, TokenBucketLimiter } from "./rate-limit";
+
+function key(id: string, overrides: Partial<ApiKeyRecord> = {}): ApiKeyRecord {
+  return { id, name: id, prefix: "tvm_test", hash: "", scopes: ["generate"], createdAt: 0, ...overrides };
+}
+
+function limits(overrides: Partial<LimitsConfig> = {}): LimitsConfig {
+  return { ...getLimitsConfig(), ipPerMinute: 0, ...overrides };
+}
+
+describe("TokenBucketLimiter", () => {
+  it("allows a burst up to the limit, then refuses", () => {
+    const limiter = new TokenBucketLimiter();
+    const results = Array.from({ length: 4 }, () => limiter.take("a", 3, 0));
+
+    expect(results.map((result) => result.allowed)).toEqual([true, true, true, false]);
+    expect(results.map((result) => result.remaining)).toEqual([2, 1, 0, 0]);
+    expect(results[3].retryAfterMs).toBe(20_000);
+  });
+
+  it("refills at the limit per minute", () => {
+    const limiter = new TokenBucketLimiter();
+    for (let i = 0; i < 3; i++) limiter.take("a", 3, 0);
+
+    expect(limiter.take("a", 3, 19_999).allowed).toBe(false);
+    expect(limiter.take("a", 3, 40_000).allowed).toBe(true);
+  });
+
+  it("never holds more than the limit", () => {
+    const limiter = new TokenBucketLimiter();
+    limiter.take("a", 3, 0);
+
+    const result = limiter.take("a", 3, 10 * 60_000);
+    expect(result.remaining).toBe(2);
+    expect(result.resetAt).toBe(10 * 60_000 + 20_000);
+  });
+
+  it("keeps a bucket per ID", () => {
+    const limiter = new TokenBucketLimiter();
+    limiter.take("a", 1, 0);
+
+    expect(limiter.take("a", 1, 0).allowed).toBe(false);
+    expect(limiter.take("b", 1, 0).allowed).toBe(true);
+  });
+});
+
+describe("getRateLimitClass", () => {
+  it.each([
+    ["POST", "/api/v1/generate", "generate"],
+    ["POST", "/api/v1/jobs", "generate"],
+    ["POST", "/api/v1/embeddings", "generate"],
+    ["POST", "/v1/chat/completions", "generate"],
+    ["POST", "/api/chat", "generate"],
+    ["GET", "/api/v1/jobs", "other"],
+    ["GET", "/api/v1/status", "status"],
+    ["GET", "/api/v1/models", "other"],
+    ["POST", "/api/v1/worker/poll", null],
+    ["GET", "/api/v1/worker/poll", null],
+  ])("%s %s counts as %s", (method, pathname, expected) => {
+    expect(getRateLimitClass(method, pathname)).toBe(expected);
+  });
+});
+
+describe("checkRateLimit", () => {
+  it("charges generate requests to the key's own bucket", () => {
+    const config = limits({ generatePerMinute: 2 });
+    const a = key(crypto.randomUUID());
+    const b = key(crypto.randomUUID());
+
+    expect(checkRateLimit("generate", a, "10.0.0.1", config)?.allowed).toBe(true);
+    expect(checkRateLimit("generate", a, "10.0.0.1", config)?.allowed).toBe(true);
+    expect(checkRateLimit("generate", a, "10.0.0.1", config)?.allowed).toBe(false);
+    expect(checkRateLimit("generate", b, "10.0.0.1", config)?.allowed).toBe(true);
+  });
+
+  it("keeps separate buckets per route class", () => {
+    const config = limits({ generatePerMinute: 1, statusPerMinute: 1 });
+    const a = key(crypto.randomUUID());
+
+    checkRateLimit("generate", a, "10.0.0.1", config);
+    expect(checkRateLimit("generate", a, "10.0.0.1", config)?.allowed).toBe(false);
+    expect(checkRateLimit("status", a, "10.0.0.1", config)?.allowed).toBe(true);
+  });
+
+  it("lets a key's own limit override the default", () => {
+    const config = limits({ generatePerMinute: 1 });
+    const result = checkRateLimit("generate", key(crypto.randomUUID(), { rateLimitPerMinute: 5 }), "10.0.0.1", config);
+
+    expect(result?.limit).toBe(5);
+    expect(result?.remaining).toBe(4);
+  });
+
+  it("limits every key coming from one IP together", () => {
+    const ip = `ip-${crypto.randomUUID()}`;
+    const config = limits({ ipPerMinute: 2, generatePerMinute: 100 });
+
+    expect(checkRateLimit("generate", key(crypto.randomUUID()), ip, config)?.allowed).toBe(true);
+    expect(checkRateLimit("generate", key(crypto.randomUUID()), ip, config)?.allowed).toBe(true);
+
+    const refused = checkRateLimit("generate", key(crypto.randomUUID()), ip, config);
+    expect(refused?.allowed).toBe(false);
+    expect(refused?.limit).toBe(2);
+  });
+
+  it("reports the IP's bucket for requests without a key", () => {
+    const result = checkRateLimit("other", null, `ip-${crypto.randomUUID()}`, limits({ ipPerMinute: 10 }));
+
+    expect(result?.limit).toBe(10);
+  });
+
+  it("skips the IP limit when no proxy is trusted to report the IP", () => {
+    const config = limits({ ipPerMinute: 1, generatePerMinute: 2, trustedProxies: [] });
+    const request = new Request("http://localhost/api/v1/generate", { headers: { "X-Forwarded-For": "10.0.0.1" } });
+    const ip = getClientIp(request, config);
+    expect(ip).toBeNull();
+
+    // Callers that share no key don't share a bucket either
+    const a = key(crypto.randomUUID());
+    expect(checkRateLimit("generate", a, ip, config)?.allowed).toBe(true);
+    expect(checkRateLimit("generate", key(crypto.randomUUID()), ip, config)?.allowed).toBe(true);
+
+    // The key's own limit still applies
+    expect(checkRateLimit("generate", a, ip, config)?.allowed).toBe(true);
+    expect(checkRateLimit("generate", a, ip, config)?.allowed).toBe(false);
+  });
+
+  it("has nothing to limit without a key or a known IP", () => {
+    expect(checkRateLimit("other", null, null, limits({ ipPerMinute: 1 }))).toBeNull();
+  });
+
+  it("applies no limit that is set to 0", () => {
+    const config = limits({ generatePerMinute: 0, ipPerMinute: 0 });
+
+    expect(checkRateLimit("generate", key(crypto.randomUUID()), "10.0.0.1", config)).toBeNull();
+  });
+});
+
+describe("rateLimitHeaders", () => {
+  it("adds Retry-After only to refusals, rounded up to a second", () => {
+    const limiter = new TokenBucketLimiter();
+    const allowed = limiter.take("a", 1, 0);
+    const refused = limiter.take("a", 1, 0);
+
+    expect(rateLimitHeaders(allowed)).toEqual({
+      "X-RateLimit-Limit": "1",
+      "X-RateLimit-Remaining": "0",
+      "X-RateLimit-Reset": "60",
+    });
+    expect(rateLimitHeaders(refused)["Retry-After"]).toBe("60");
+  });
+});
@@ -0,0 +1,134 @@
+import type { ApiKeyRecord } from "./api-keys";
+import { getLimitsConfig, type LimitsConfig } from "./limits-config";
+
+const WINDOW_MS = 60_000;
+// Full buckets carry no state, so they are dropped once there are this many
+const MAX_BUCKETS = 10_000;
+
+export type RateLimitClass = "generate" | "status" | "other";
+
+// Routes that queue work for the GPU
+const GENERATE_ROUTES = [
+  /^\/api\/v1\/(generate|jobs|embeddings)$/,
+  /^\/v1\/(chat\/completions|completions|embeddings)$/,
+  /^\/api\/(generate|chat)$/,
+];
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // When the bucket is full again
+  resetAt: number;
+  // How long until the next request would be allowed; 0 when allowed
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets that refill at `limit` tokens a minute and hold at most
+ * `limit`, so callers may burst up to the limit and then settle to the rate
+ */
+export class TokenBucketLimiter {
+  private readonly buckets = new Map<string, Bucket>();
+
+  take(id: string, limit: number, now = Date.now()): RateLimitResult {
+    const refillPerMs = limit / WINDOW_MS;
+    const bucket = this.buckets.get(id) ?? { tokens: limit, updatedAt: now };
+
+    bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * refillPerMs);
+    bucket.updatedAt = now;
+
+    const allowed = bucket.tokens >= 1;
+    if (allowed) {
+      bucket.tokens -= 1;
+    }
+
+    if (!this.buckets.has(id) && this.buckets.size >= MAX_BUCKETS) {
+      this.prune(now);
+    }
+    this.buckets.set(id, bucket);
+
+    return {
+      allowed,
+      limit,
+      remaining: Math.floor(bucket.tokens),
+      resetAt: now + Math.ceil((limit - bucket.tokens) / refillPerMs),
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - bucket.tokens) / refillPerMs),
+    };
+  }
+
+  private prune(now: number) {
+    for (const [id, bucket] of Array.from(this.buckets)) {
+      if (now - bucket.updatedAt >= WINDOW_MS) {
+        this.buckets.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * Which limit a request counts against, or null for routes that aren't
+ * limited. Workers poll constantly and are never limited.
+ */
+export function getRateLimitClass(method: string, pathname: string): RateLimitClass | null {
+  if (/^\/api\/v1\/worker(\/|$)/.test(pathname)) return null;
+  if (method === "POST" && GENERATE_ROUTES.some((pattern) => pattern.test(pathname))) return "generate";
+  if (/^\/api\/v1\/status$/.test(pathname)) return "status";
+  return "other";
+}
+
+/**
+ * Charges a request to its API key's bucket for the route class and to its
+ * IP address's bucket. The key's limits are reported when there is a key.
+ * An unknown IP skips the IP limit: lumping every such caller into one
+ * bucket would let any one of them exhaust it for all the others.
+ * @returns null when no limit applies
+ */
+export function checkRateLimit(
+  limitClass: RateLimitClass,
+  key: ApiKeyRecord | null,
+  ip: string | null,
+  config: LimitsConfig = getLimitsConfig(),
+): RateLimitResult | null {
+  const now = Date.now();
+
+  const ipResult = ip !== null && config.ipPerMinute > 0 ? rateLimiter.take(`ip:${ip}`, config.ipPerMinute, now) : null;
+  if (ipResult && !ipResult.allowed) return ipResult;
+
+  const keyLimit = getKeyLimit(limitClass, key, config);
+  if (!key || keyLimit === 0) return ipResult;
+
+  return rateLimiter.take(`${limitClass}:${key.id}`, keyLimit, now);
+}
+
+function getKeyLimit(limitClass: RateLimitClass, key: ApiKeyRecord | null, config: LimitsConfig): number {
+  switch (limitClass) {
+    case "generate":
+      return key?.rateLimitPerMinute ?? config.generatePerMinute;
+    case "status":
+      return config.statusPerMinute;
+    default:
+      return config.otherPerMinute;
+  }
+}
+
+export function rateLimitHeaders(result: RateLimitResult): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(result.limit),
+    "X-RateLimit-Remaining": String(result.remaining),
+    "X-RateLimit-Reset": String(Math.ceil(result.resetAt / 1000)),
+    ...(result.allowed ? {} : { "Retry-After": String(Math.max(1, Math.ceil(result.retryAfterMs / 1000))) }),
+  };
+}
+
+// Global singleton for Next.js dev server hot reload persistence
+const globalForLimits = globalThis as unknown as { rateLimiter: TokenBucketLimiter };
+
+export const rateLimiter = globalForLimits.rateLimiter || new TokenBucketLimiter();
+
+if (process.env.NODE_ENV !== "production") globalForLimits.rateLimiter = rateLimiter;
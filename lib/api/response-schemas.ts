@@ -0,0 +1,407 @@
+import { z } from "zod";
+import {
+  apiKeyScopeSchema,
+  debugLogLevelSchema,
+  embeddingRequestSchema,
+  generateRequestSchema,
+  jobPrioritySchema,
+  jobStatusSchema,
+  modelActionSchema,
+  toolCallSchema,
+  workerTelemetrySchema,
+} from "./schemas";
+
+// Response bodies. types/api.ts infers the response types from these and
+// the OpenAPI document is generated from them, so neither can drift from
+// the other.
+
+export const apiErrorSchema = z.object({
+  code: z.string(),
+  message: z.string(),
+  details: z.unknown().optional(),
+});
+
+export const responseMetadataSchema = z.object({
+  requestId: z.string(),
+  timestamp: z.number(),
+  version: z.string(),
+});
+
+/**
+ * The envelope every /api/v1 response is wrapped in
+ * @param data - Schema of the payload on success
+ */
+export function apiResponseSchema<T extends z.ZodTypeAny>(data: T) {
+  return z.object({
+    success: z.boolean(),
+    data: data.optional(),
+    error: apiErrorSchema.optional(),
+    metadata: responseMetadataSchema,
+  });
+}
+
+// What fail() sends
+export const apiErrorResponseSchema = z.object({
+  success: z.literal(false),
+  error: apiErrorSchema,
+  metadata: responseMetadataSchema,
+});
+
+export const jsonOutputCheckSchema = z.object({
+  parsed: z.boolean(),
+  // Whether the output matched json_schema; null when none was given
+  schema_valid: z.boolean().nullable(),
+  errors: z.array(z.string()),
+});
+
+export const generateResponseSchema = z.object({
+  text: z.string(),
+  tokens: z.number().int(),
+  // stop: the model ended its turn. length: max_tokens was reached.
+  // stop_sequence: one of the request's stop sequences was generated.
+  // cancelled and error: generation was cut short; text holds the output so far.
+  finish_reason: z.enum(["stop", "length", "stop_sequence", "tool_calls", "cancelled", "error"]),
+  // The stop sequence that matched, when finish_reason is stop_sequence
+  stop_sequence: z.string().optional(),
+  usage: z.object({
+    prompt_tokens: z.number().int(),
+    completion_tokens: z.number().int(),
+    total_tokens: z.number().int(),
+  }),
+  performance: z.object({
+    // Decode speed, as measured by the engine
+    tokens_per_second: z.number(),
+    // Prefill time on the worker; null when the worker didn't report it
+    time_to_first_token_ms: z.number().nullable(),
+    latency_ms: z.number(),
+    total_time_ms: z.number(),
+  }),
+  // Present when the request asked for JSON output
+  json: jsonOutputCheckSchema.optional(),
+  // Present when the model answered by calling tools; text is then empty
+  tool_calls: z.array(toolCallSchema).optional(),
+});
+
+// Server-sent events of a streamed generate call: one token per delta,
+// then done or error
+export const generateStreamEventSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("token"), data: z.object({ token: z.string() }) }),
+  z.object({ type: z.literal("done"), data: z.object({ completion: generateResponseSchema }) }),
+  z.object({ type: z.literal("error"), data: z.object({ error: z.string(), code: z.string().nullable() }) }),
+]);
+
+export const embeddingResponseSchema = z.object({
+  // Embedding model the worker ran
+  model: z.string(),
+  // One vector per input, in input order
+  embeddings: z.array(z.array(z.number())),
+  dimensions: z.number().int(),
+  usage: z.object({
+    prompt_tokens: z.number().int(),
+    total_tokens: z.number().int(),
+  }),
+  performance: z.object({
+    latency_ms: z.number(),
+  }),
+});
+
+export const apiKeyResponseSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  // Start of the key, to tell keys apart; the full key is only returned once
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  // Per-key overrides; null means the server defaults apply
+  rate_limit_per_minute: z.number().int().nullable(),
+  token_quota: z.number().int().nullable(),
+  max_priority: jobPrioritySchema.nullable(),
+  created_at: z.number(),
+  revoked_at: z.number().nullable(),
+});
+
+export const createdApiKeyResponseSchema = apiKeyResponseSchema.extend({
+  // The plaintext key, returned only this once
+  key: z.string(),
+});
+
+export const apiKeyListResponseSchema = z.object({
+  keys: z.array(apiKeyResponseSchema),
+});
+
+export const usageResponseSchema = z.object({
+  key_id: z.string(),
+  // Quota period this usage counts toward, e.g. "2026-10-19" or "2026-10"
+  period: z.string(),
+  period_start: z.number(),
+  resets_at: z.number(),
+  requests: z.number().int(),
+  prompt_tokens: z.number().int(),
+  completion_tokens: z.number().int(),
+  total_tokens: z.number().int(),
+  // null when the key has no token quota
+  token_quota: z.number().int().nullable(),
+  remaining_tokens: z.number().int().nullable(),
+});
+
+export const usageListResponseSchema = z.object({
+  usage: z.array(usageResponseSchema),
+});
+
+export const jobResponseSchema = z.object({
+  id: z.string(),
+  status: jobStatusSchema,
+  priority: jobPrioritySchema,
+  client_id: z.string(),
+  created_at: z.number(),
+  started_at: z.number().nullable(),
+  finished_at: z.number().nullable(),
+  expires_at: z.number(),
+  attempts: z.number().int(),
+  queue_position: z.number().int().nullable(),
+  estimated_wait_ms: z.number().nullable(),
+  result: z.union([generateResponseSchema, embeddingResponseSchema]).nullable(),
+  error: z.string().nullable(),
+  error_code: z.string().nullable(),
+});
+
+export const jobListResponseSchema = z.object({
+  jobs: z.array(jobResponseSchema),
+  // Jobs waiting in the queue
+  pending: z.number().int(),
+});
+
+export const modelInfoSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  size: z.string(),
+  vram_required: z.string(),
+  downloaded: z.boolean(),
+  speed_tier: z.enum(["fast", "medium", "slow"]),
+  quality_tier: z.enum(["excellent", "good", "basic"]),
+  capabilities: z.array(z.string()),
+  source: z.object({
+    provider: z.literal("webllm"),
+    model_uri: z.string(),
+    tokenizer_uri: z.string().optional(),
+    checksum_sha256: z.string().optional(),
+  }).optional(),
+});
+
+export const modelSuggestionSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  reason: z.string(),
+});
+
+export const modelListResponseSchema = z.object({
+  models: z.array(modelInfoSchema),
+  provider: z.object({
+    provider: z.literal("webllm"),
+    baseUrl: z.string(),
+    manifestPath: z.string(),
+    timeoutMs: z.number(),
+  }),
+  manifest_version: z.string(),
+  // Models that fit the vram_gb and storage_free_gb given in the query
+  suggestions: z.array(modelSuggestionSchema),
+});
+
+export const modelWorkerStateSchema = z.object({
+  worker_id: z.string(),
+  downloaded: z.boolean(),
+  loaded: z.boolean(),
+});
+
+export const modelDetailsResponseSchema = z.object({
+  id: z.string(),
+  // Manifest entry; null for models a worker has that the manifest doesn't list
+  model: modelInfoSchema.nullable(),
+  // On at least one connected worker
+  downloaded: z.boolean(),
+  loaded: z.boolean(),
+  workers: z.array(modelWorkerStateSchema),
+});
+
+export const modelOperationResponseSchema = z.object({
+  id: z.string(),
+  action: modelActionSchema,
+  model_id: z.string(),
+  worker_id: z.string(),
+  status: z.enum(["queued", "running", "succeeded", "failed"]),
+  // 0-100
+  progress: z.number().min(0).max(100),
+  error: z.string().nullable(),
+  created_at: z.number(),
+  started_at: z.number().nullable(),
+  finished_at: z.number().nullable(),
+});
+
+// id and telemetry are only shown to admin keys
+export const workerStatusSchema = z.object({
+  id: z.string().optional(),
+  healthy: z.boolean(),
+  active_jobs: z.number().int(),
+  capacity: z.number().int(),
+  last_heartbeat: z.number(),
+  // null until the worker's first telemetry heartbeat
+  telemetry: workerTelemetrySchema.nullable().optional(),
+});
+
+export const statusResponseSchema = z.object({
+  status: z.enum(["ready", "loading", "error", "idle"]),
+  model: z.object({
+    id: z.string(),
+    loaded: z.boolean(),
+  }).nullable(),
+  system: z.object({
+    webgpu_available: z.boolean(),
+    ram_gb: z.number(),
+    gpu_vram_gb: z.number(),
+    storage_quota_gb: z.number(),
+    storage_used_gb: z.number(),
+  }),
+  performance: z.object({
+    avg_tokens_per_second: z.number(),
+    avg_latency_ms: z.number(),
+    requests_total: z.number().int(),
+    requests_success: z.number().int(),
+    requests_error: z.number().int(),
+  }),
+  health: z.object({
+    webgpu_context_losses: z.number().int(),
+    memory_errors: z.number().int(),
+    stability_score: z.number(),
+  }),
+  queue: z.object({
+    depth: z.number().int(),
+    running: z.number().int(),
+  }),
+  workers: z.array(workerStatusSchema),
+});
+
+export const workerSnapshotSchema = z.object({
+  id: z.string(),
+  connectedAt: z.number(),
+  lastHeartbeat: z.number(),
+  activeJobs: z.number().int(),
+  capacity: z.number().int(),
+  model: z.string().nullable(),
+  models: z.array(z.string()),
+  healthy: z.boolean(),
+  telemetry: workerTelemetrySchema.nullable(),
+});
+
+export const queueSnapshotSchema = z.object({
+  depth: z.number().int(),
+  by_class: z.object({
+    interactive: z.number().int(),
+    normal: z.number().int(),
+    batch: z.number().int(),
+  }),
+  by_client: z.array(z.object({ client_id: z.string(), depth: z.number().int() })),
+  running: z.number().int(),
+  workers: z.array(workerSnapshotSchema),
+});
+
+export const debugLogEntrySchema = z.object({
+  level: debugLogLevelSchema,
+  service: z.string(),
+  message: z.string(),
+  data: z.unknown().optional(),
+  timestamp: z.number(),
+  stack: z.string().optional(),
+});
+
+export const debugLogsResponseSchema = z.object({
+  logs: z.array(debugLogEntrySchema),
+});
+
+export const debugTraceSchema = z.object({
+  id: z.string(),
+  service: z.string(),
+  operation: z.string(),
+  started_at: z.number(),
+  duration_ms: z.number(),
+  metadata: z.record(z.unknown()),
+  result: z.unknown().optional(),
+});
+
+export const debugTracesResponseSchema = z.object({
+  traces: z.array(debugTraceSchema),
+  // Traces started and not yet ended
+  active: z.number().int(),
+});
+
+export const profileMetricSchema = z.object({
+  service: z.string(),
+  name: z.string(),
+  // Most recent values, oldest first
+  values: z.array(z.object({
+    value: z.number(),
+    timestamp: z.number(),
+    tags: z.record(z.string()).optional(),
+  })),
+  aggregations: z.object({
+    count: z.number().int(),
+    avg: z.number(),
+    min: z.number(),
+    max: z.number(),
+    p50: z.number(),
+    p95: z.number(),
+    p99: z.number(),
+  }),
+});
+
+export const profileResponseSchema = z.object({
+  metrics: z.array(profileMetricSchema),
+});
+
+// Worker channel
+
+export const workerConnectResponseSchema = z.object({
+  success: z.literal(true),
+  // The ID to poll and report with, issued when the worker didn't send one
+  worker_id: z.string(),
+});
+
+export const dispatchedJobSchema = z.object({
+  id: z.string(),
+  request: z.union([generateRequestSchema, embeddingRequestSchema]),
+  // Renew the lease before this time, or the job goes to another worker
+  lease_expires_at: z.number(),
+});
+
+// What a worker is told to do with a model
+export const modelCommandMessageSchema = z.object({
+  id: z.string(),
+  action: modelActionSchema,
+  model_id: z.string(),
+});
+
+// Server -> worker, delivered through the poll endpoint
+export const workerMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("job"), job: dispatchedJobSchema }),
+  z.object({ type: z.literal("cancel"), id: z.string() }),
+  z.object({ type: z.literal("model"), command: modelCommandMessageSchema }),
+]);
+
+export const workerPollResponseSchema = z.object({
+  messages: z.array(workerMessageSchema),
+  // Jobs waiting in the queue
+  pending: z.number().int(),
+});
+
+export const workerAckSchema = z.object({
+  type: z.enum(["heartbeat", "renew", "chunk", "model_progress", "model_result"]),
+  id: z.string().optional(),
+  outcome: z.enum(["accepted", "not_found", "lease_lost"]),
+});
+
+export const workerAcksResponseSchema = z.object({
+  // One per message, in order
+  acks: z.array(workerAckSchema),
+});
+
+export const successResponseSchema = z.object({
+  success: z.literal(true),
+});
@@ -1,7 +1,16 @@
 import { NextResponse } from "next/server";
 import type { APIResponse, APIError } from "@/types/api";
 
-const API_VERSION = "0.1.0";
+export const API_VERSION = "0.1.0";
+
+export const corsHeaders = {
+  // Every route needs an API key, so browsers are no longer the gate; set
+  // API_CORS_ORIGIN to limit which sites may call the API from a page
+  "Access-Control-Allow-Origin": process.env.API_CORS_ORIGIN || "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+  "Access-Control-Expose-Headers": "Retry-After, X-Queue-Position, X-Queue-Estimated-Wait-Ms, X-RateLimit-Limit, X-RateLimit-Remaining, X-RateLimit-Reset",
+};
 
 function buildMetadata() {
   return {
@@ -29,4 +38,11 @@ export function fail(error: APIError, status = 400, headers?: HeadersInit) {
   };
 
   return NextResponse.json(payload, { status, headers });
-}
\ No newline at end of file
+}
+
+export function preflight() {
+  return new Response(null, {
+    status: 200,
+    headers: corsHeaders,
+  });
+}
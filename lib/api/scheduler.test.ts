@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import type { JobPriority } from "@/types/api";
+import { capPriority, FairScheduler, type ScheduledJob } from "./scheduler";
+
+function job(clientId: string, overrides: Partial<ScheduledJob> = {}): ScheduledJob {
+  return { clientId, priority: "normal", cost: 4, ...overrides };
+}
+
+function drain(scheduler: FairScheduler, model?: string) {
+  const order: string[] = [];
+  for (let id = scheduler.dequeue({ model }); id; id = scheduler.dequeue({ model })) {
+    order.push(id);
+  }
+  return order;
+}
+
+describe("FairScheduler", () => {
+  it("runs one client's jobs in submission order", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a"));
+    scheduler.enqueue("a2", job("a"));
+    scheduler.enqueue("a3", job("a"));
+
+    expect(drain(scheduler)).toEqual(["a1", "a2", "a3"]);
+  });
+
+  it("interleaves a late client with one that flooded the queue", () => {
+    const scheduler = new FairScheduler();
+    for (let i = 1; i <= 10; i++) {
+      scheduler.enqueue(`a${i}`, job("a"));
+    }
+    scheduler.enqueue("b1", job("b"));
+    scheduler.enqueue("b2", job("b"));
+
+    expect(scheduler.position("b1")).toBe(2);
+    expect(scheduler.position("b2")).toBe(4);
+    expect(drain(scheduler).slice(0, 4)).toEqual(["a1", "b1", "a2", "b2"]);
+  });
+
+  it("advances higher priority classes faster", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("batch", job("a", { priority: "batch", cost: 8 }));
+    scheduler.enqueue("normal", job("b", { priority: "normal", cost: 8 }));
+    scheduler.enqueue("interactive", job("c", { priority: "interactive", cost: 8 }));
+
+    expect(scheduler.ids()).toEqual(["interactive", "normal", "batch"]);
+  });
+
+  it("charges larger jobs more of their client's share", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("big", job("a", { cost: 400 }));
+    scheduler.enqueue("small1", job("b", { cost: 4 }));
+    scheduler.enqueue("small2", job("b", { cost: 4 }));
+
+    expect(scheduler.ids()).toEqual(["small1", "small2", "big"]);
+  });
+
+  it("doesn't let an idle client bank credit", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a"));
+    scheduler.enqueue("a2", job("a"));
+    drain(scheduler);
+
+    // b was idle while a ran; it starts level with a rather than ahead
+    scheduler.enqueue("b1", job("b"));
+    scheduler.enqueue("a3", job("a"));
+
+    expect(scheduler.ids()).toEqual(["b1", "a3"]);
+  });
+
+  it("puts front-of-queue jobs ahead of everything, earliest first", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("queued", job("a", { priority: "interactive" }));
+    scheduler.enqueueFront("retry", job("b", { priority: "batch" }));
+    scheduler.enqueueFront("promoted", job("c"));
+
+    expect(scheduler.ids()).toEqual(["retry", "promoted", "queued"]);
+  });
+
+  it("moves an already queued job to the front", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a"));
+    scheduler.enqueue("a2", job("a"));
+    scheduler.enqueueFront("a2", job("a"));
+
+    expect(scheduler.ids()).toEqual(["a2", "a1"]);
+    expect(scheduler.size).toBe(2);
+  });
+
+  it("peeks without taking the job", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a"));
+
+    expect(scheduler.peek()?.id).toBe("a1");
+    expect(scheduler.has("a1")).toBe(true);
+    expect(scheduler.dequeue()).toBe("a1");
+    expect(scheduler.dequeue()).toBeUndefined();
+  });
+
+  it("skips jobs the worker can't run", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a", { model: "llama" }));
+    scheduler.enqueue("b1", job("b", { model: "phi" }));
+
+    const canRun = (entry: ScheduledJob) => entry.model === "phi";
+    expect(scheduler.dequeue({ canRun })).toBe("b1");
+    expect(scheduler.dequeue({ canRun })).toBeUndefined();
+    expect(scheduler.ids()).toEqual(["a1"]);
+  });
+
+  it("prefers jobs for the loaded model, or for no model", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("llama", job("a", { model: "llama" }));
+    scheduler.enqueue("any", job("b"));
+    scheduler.enqueue("phi", job("c", { model: "phi" }));
+
+    expect(scheduler.dequeue({ model: "phi" })).toBe("any");
+    expect(scheduler.dequeue({ model: "phi" })).toBe("phi");
+    expect(scheduler.dequeue({ model: "phi" })).toBe("llama");
+  });
+
+  it("runs a job passed over too often regardless of the loaded model", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("llama", job("a", { model: "llama" }));
+    for (let i = 1; i <= 6; i++) {
+      scheduler.enqueue(`phi${i}`, job("a", { model: "phi" }));
+    }
+
+    expect(drain(scheduler, "phi")).toEqual(["phi1", "phi2", "phi3", "phi4", "llama", "phi5", "phi6"]);
+  });
+
+  it("only looks a few jobs ahead for the loaded model", () => {
+    const scheduler = new FairScheduler();
+    for (let i = 1; i <= 8; i++) {
+      scheduler.enqueue(`llama${i}`, job("a", { model: "llama" }));
+    }
+    scheduler.enqueue("phi", job("a", { model: "phi" }));
+
+    expect(scheduler.dequeue({ model: "phi" })).toBe("llama1");
+  });
+
+  it("removes jobs and reports positions", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a"));
+    scheduler.enqueue("a2", job("a"));
+
+    expect(scheduler.remove("a1")).toBe(true);
+    expect(scheduler.remove("a1")).toBe(false);
+    expect(scheduler.position("a1")).toBeNull();
+    expect(scheduler.position("a2")).toBe(1);
+  });
+
+  it("counts waiting jobs by class and by client", () => {
+    const scheduler = new FairScheduler();
+    scheduler.enqueue("a1", job("a", { priority: "batch" }));
+    scheduler.enqueue("b1", job("b"));
+    scheduler.enqueue("b2", job("b", { priority: "interactive" }));
+
+    expect(scheduler.snapshot()).toEqual({
+      depth: 3,
+      by_class: { interactive: 1, normal: 1, batch: 1 },
+      by_client: [
+        { client_id: "b", depth: 2 },
+        { client_id: "a", depth: 1 },
+      ],
+    });
+
+    scheduler.clear();
+    expect(scheduler.snapshot().depth).toBe(0);
+  });
+});
+
+describe("capPriority", () => {
+  const cases: Array<[JobPriority, JobPriority, JobPriority]> = [
+    ["interactive", "normal", "normal"],
+    ["interactive", "batch", "batch"],
+    ["normal", "batch", "batch"],
+    ["batch", "interactive", "batch"],
+    ["normal", "interactive", "normal"],
+    ["interactive", "interactive", "interactive"],
+  ];
+
+  it.each(cases)("caps %s at %s to %s", (priority, max, expected) => {
+    expect(capPriority(priority, max)).toBe(expected);
+  });
+});
@@ -0,0 +1,196 @@
+import type { JobPriority } from "@/types/api";
+
+// Share of the GPU each class gets when all of them have work waiting
+export const PRIORITY_WEIGHTS: Record<JobPriority, number> = {
+    interactive: 8,
+    normal: 4,
+    batch: 1,
+};
+
+export const PRIORITY_CLASSES = Object.keys(PRIORITY_WEIGHTS) as JobPriority[];
+
+/**
+ * The requested class, lowered to max when it is higher
+ */
+export function capPriority(priority: JobPriority, max: JobPriority): JobPriority {
+    return PRIORITY_WEIGHTS[priority] > PRIORITY_WEIGHTS[max] ? max : priority;
+}
+
+// How far ahead a worker looks for a job on the model it has loaded
+const MODEL_AFFINITY_WINDOW = 8;
+// Times a job may be passed over before it runs regardless of model
+const MAX_SKIPS = 4;
+
+export interface ScheduledJob {
+    clientId: string;
+    priority: JobPriority;
+    // Relative size of the job, e.g. its token budget
+    cost: number;
+    // Chat model the job asked for; without one it runs on whatever is loaded
+    model?: string;
+}
+
+interface Entry extends ScheduledJob {
+    id: string;
+    // Virtual finish time; the smallest tag runs next
+    tag: number;
+    seq: number;
+    // How often a job behind it was taken first
+    skips: number;
+}
+
+export interface DequeueOptions {
+    // Jobs the worker can't run stay queued for another
+    canRun?: (job: ScheduledJob) => boolean;
+    // Model the worker has loaded, whose jobs it takes first
+    model?: string | null;
+}
+
+export interface SchedulerSnapshot {
+    depth: number;
+    by_class: Record<JobPriority, number>;
+    by_client: Array<{ client_id: string; depth: number }>;
+}
+
+/**
+ * Weighted fair queue over client identities.
+ *
+ * Each job is stamped with a virtual finish time: the later of "now" in
+ * virtual time and the client's previous finish, plus cost / weight. Jobs
+ * run in tag order, so a client that floods the queue only pushes its own
+ * jobs back, and higher priority classes advance faster.
+ * Jobs put at the front (retries, promotions) skip the ordering entirely.
+ * A worker may take a job slightly out of turn to stay on the model it has
+ * loaded; see dequeue().
+ */
+export class FairScheduler {
+    private entries = new Map<string, Entry>();
+    private virtualTime = 0;
+    private clientFinish = new Map<string, number>();
+    private seq = 0;
+
+    get size() {
+        return this.entries.size;
+    }
+
+    enqueue(id: string, job: ScheduledJob) {
+        const start = Math.max(this.virtualTime, this.clientFinish.get(job.clientId) ?? 0);
+        const tag = start + job.cost / PRIORITY_WEIGHTS[job.priority];
+
+        this.clientFinish.set(job.clientId, tag);
+        this.entries.set(id, { ...job, id, tag, seq: this.seq++, skips: 0 });
+    }
+
+    /**
+     * Puts a job ahead of everything that was fairly queued.
+     * Among front-of-queue jobs, earlier calls go first.
+     */
+    enqueueFront(id: string, job: ScheduledJob) {
+        this.entries.delete(id);
+        this.entries.set(id, { ...job, id, tag: Number.NEGATIVE_INFINITY, seq: this.seq++, skips: 0 });
+    }
+
+    /**
+     * The job a worker should run next, without taking it
+     */
+    peek(options: DequeueOptions = {}): (ScheduledJob & { id: string }) | undefined {
+        return this.pick(options);
+    }
+
+    /**
+     * Takes the next job a worker can run. Within the next few, a job for the
+     * worker's loaded model (or for any model) goes first, so workers don't
+     * reload models back and forth; a job passed over too often goes first
+     * regardless.
+     */
+    dequeue(options: DequeueOptions = {}): string | undefined {
+        const next = this.pick(options);
+        if (!next) return undefined;
+
+        for (const entry of Array.from(this.entries.values())) {
+            if (entry.tag < next.tag || (entry.tag === next.tag && entry.seq < next.seq)) {
+                entry.skips += 1;
+            }
+        }
+
+        this.entries.delete(next.id);
+        if (Number.isFinite(next.tag)) {
+            this.virtualTime = Math.max(this.virtualTime, next.tag);
+        }
+        this.pruneClients();
+        return next.id;
+    }
+
+    remove(id: string) {
+        const removed = this.entries.delete(id);
+        if (removed) {
+            this.pruneClients();
+        }
+        return removed;
+    }
+
+    has(id: string) {
+        return this.entries.has(id);
+    }
+
+    /**
+     * Job IDs in the order they will run
+     */
+    ids(): string[] {
+        return this.ordered().map((entry) => entry.id);
+    }
+
+    position(id: string): number | null {
+        if (!this.entries.has(id)) return null;
+        return this.ids().indexOf(id) + 1;
+    }
+
+    snapshot(): SchedulerSnapshot {
+        const byClass = Object.fromEntries(PRIORITY_CLASSES.map((priority) => [priority, 0])) as Record<JobPriority, number>;
+        const byClient = new Map<string, number>();
+
+        for (const entry of Array.from(this.entries.values())) {
+            byClass[entry.priority] += 1;
+            byClient.set(entry.clientId, (byClient.get(entry.clientId) ?? 0) + 1);
+        }
+
+        return {
+            depth: this.entries.size,
+            by_class: byClass,
+            by_client: Array.from(byClient, ([client_id, depth]) => ({ client_id, depth }))
+                .sort((a, b) => b.depth - a.depth),
+        };
+    }
+
+    clear() {
+        this.entries.clear();
+        this.clientFinish.clear();
+    }
+
+    private pick({ canRun, model }: DequeueOptions): Entry | undefined {
+        const runnable = this.ordered().filter((entry) => canRun?.(entry) ?? true);
+        const first = runnable[0];
+        if (!first || first.skips >= MAX_SKIPS) return first;
+
+        return runnable
+            .slice(0, MODEL_AFFINITY_WINDOW)
+            .find((entry) => !entry.model || entry.model === model) ?? first;
+    }
+
+    private ordered(): Entry[] {
+        return Array.from(this.entries.values()).sort((a, b) => a.tag - b.tag || a.seq - b.seq);
+    }
+
+    /**
+     * Forgets finish times that can no longer delay anyone, so idle clients
+     * don't accumulate state
+     */
+    private pruneClients() {
+        const waiting = new Set(Array.from(this.entries.values(), (entry) => entry.clientId));
+        for (const [clientId, finish] of Array.from(this.clientFinish)) {
+            if (!waiting.has(clientId) && finish <= this.virtualTime) {
+                this.clientFinish.delete(clientId);
+            }
+        }
+    }
+}
@@ -1,17 +1,416 @@
 import { z } from "zod";
+import { findSchemaKeyword } from "./json-schema";
+
+export const toolSchema = z.object({
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/, "Use 1-64 letters, digits, underscores or dashes"),
+    description: z.string().max(2000).optional(),
+    // JSON Schema for the arguments object
+    parameters: z.record(z.unknown()).optional(),
+  }),
+});
+
+export const toolCallSchema = z.object({
+  id: z.string().min(1),
+  type: z.literal("function"),
+  function: z.object({
+    name: z.string().min(1),
+    arguments: z.string(),
+  }),
+});
+
+export const toolChoiceSchema = z.union([
+  z.enum(["none", "auto", "required"]),
+  z.object({ type: z.literal("function"), function: z.object({ name: z.string().min(1) }) }),
+]);
+
+export const generateMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant", "tool"]),
+  content: z.string().max(10000),
+  // Calls an assistant turn made; its content may then be empty
+  tool_calls: z.array(toolCallSchema).max(16).optional(),
+  // The call a tool turn answers
+  tool_call_id: z.string().min(1).optional(),
+});
+
+export type GenerateMessage = z.infer<typeof generateMessageSchema>;
+
+// Accepted so callers get a clear error, but the WebLLM engine has no way
+// to apply them
+const UNSUPPORTED_GENERATE_PARAMS = {
+  top_k: "top_k is not supported by the WebLLM engine; use top_p instead",
+} as const;
+
+export const jobPrioritySchema = z.enum(["interactive", "normal", "batch"]);
+
+export const logitBiasSchema = z.record(
+  z.string().regex(/^\d+$/, "Keys must be token IDs"),
+  z.number().min(-100).max(100),
+);
 
 export const generateRequestSchema = z.object({
-  prompt: z.string().trim().min(1).max(10000),
+  // Chat model to run; defaults to the one the worker has loaded
+  model: z.string().min(1).max(200).optional(),
+  // Shorthand for a conversation of one user message
+  prompt: z.string().trim().min(1).max(10000).optional(),
+  messages: z.array(generateMessageSchema).min(1).max(100).optional(),
   max_tokens: z.number().int().min(1).max(4096).optional(),
   temperature: z.number().min(0).max(2).optional(),
-  top_p: z.number().min(0).max(1).optional(),
+  top_p: z.number().gt(0).max(1).optional(),
   top_k: z.number().int().min(1).max(100).optional(),
-  frequency_penalty: z.number().min(0).max(2).optional(),
-  presence_penalty: z.number().min(0).max(2).optional(),
-  stop: z.array(z.string()).max(10).optional(),
+  frequency_penalty: z.number().min(-2).max(2).optional(),
+  presence_penalty: z.number().min(-2).max(2).optional(),
+  stop: z.array(z.string().min(1)).max(10).optional(),
+  // Same seed and parameters give the same output on the same model
+  seed: z.number().int().optional(),
+  logit_bias: logitBiasSchema.optional(),
   stream: z.boolean().optional(),
   json_mode: z.boolean().optional(),
   json_schema: z.record(z.unknown()).optional(),
+  priority: jobPrioritySchema.optional(),
+  tools: z.array(toolSchema).min(1).max(32).optional(),
+  tool_choice: toolChoiceSchema.optional(),
+}).superRefine((request, ctx) => {
+  if ((request.prompt === undefined) === (request.messages === undefined)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Provide either prompt or messages", path: ["messages"] });
+  }
+
+  for (const [param, message] of Object.entries(UNSUPPORTED_GENERATE_PARAMS)) {
+    if (request[param as keyof typeof UNSUPPORTED_GENERATE_PARAMS] !== undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [param] });
+    }
+  }
+
+  // The engine only takes a system message first, and a user or tool
+  // message last
+  const messages = request.messages ?? [];
+  messages.forEach((message, index) => {
+    if (message.role === "system" && index !== 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Only the first message may be a system message", path: ["messages", index, "role"] });
+    }
+    if (message.tool_calls && message.role !== "assistant") {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Only assistant messages may carry tool_calls", path: ["messages", index, "tool_calls"] });
+    }
+    if (message.role === "tool" && !message.tool_call_id) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Tool messages need the tool_call_id they answer", path: ["messages", index, "tool_call_id"] });
+    }
+  });
+  const last = messages[messages.length - 1];
+  if (last && last.role !== "user" && last.role !== "tool") {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "The last message must be from the user or a tool", path: ["messages", messages.length - 1, "role"] });
+  }
+
+  const toolChoice = request.tool_choice;
+  if (toolChoice !== undefined && !request.tools) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "tool_choice needs tools", path: ["tool_choice"] });
+  }
+  if (typeof toolChoice === "object" && !request.tools?.some((tool) => tool.function.name === toolChoice.function.name)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `No tool named ${toolChoice.function.name}`, path: ["tool_choice"] });
+  }
+  // The server checks the output against the schema, and won't run a
+  // caller's regular expression to do it
+  const patternPath = findSchemaKeyword(request.json_schema, "pattern");
+  if (patternPath) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `pattern is not supported (at ${patternPath})`, path: ["json_schema"] });
+  }
+
+  // Function calling already constrains the output to a list of calls
+  if (request.tools && toolChoice !== "none" && (request.json_mode || request.json_schema)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "JSON mode can't be combined with tools", path: ["tools"] });
+  }
+}).describe("Give either prompt or messages. JSON mode can't be combined with tools.");
+
+export type GenerateRequest = z.infer<typeof generateRequestSchema>;
+
+const embeddingInputSchema = z.string().min(1, "Embedding inputs can't be empty").max(10000);
+
+export const embeddingRequestSchema = z.object({
+  // One text, or a batch embedded in a single worker job
+  input: z.union([embeddingInputSchema, z.array(embeddingInputSchema).min(1).max(256)]),
+  // Embedding model to run; defaults to the one the worker has loaded
+  model: z.string().min(1).optional(),
+  priority: jobPrioritySchema.optional(),
+});
+
+export type EmbeddingRequest = z.infer<typeof embeddingRequestSchema>;
+
+export const jobStatusSchema = z.enum(["queued", "running", "succeeded", "failed", "cancelled", "expired"]);
+
+export const listJobsQuerySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(",").map((entry) => entry.trim()).filter(Boolean))
+    .pipe(z.array(jobStatusSchema))
+    .optional()
+    .describe("Comma-separated statuses, e.g. queued,running"),
+  since: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type ListJobsQuery = z.infer<typeof listJobsQuerySchema>;
+
+export const debugLogLevelSchema = z.enum(["debug", "info", "warn", "error"]);
+
+export const debugLogsQuerySchema = z.object({
+  // Entries at this level and above
+  level: debugLogLevelSchema.optional(),
+  service: z.string().min(1).optional(),
+  since: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(100),
+  // Keep the response open and send new entries as server-sent events
+  stream: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+export const debugTracesQuerySchema = z.object({
+  service: z.string().min(1).optional(),
+  operation: z.string().min(1).optional(),
+  since: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export const debugProfileQuerySchema = z.object({
+  service: z.string().min(1).optional(),
+  metric: z.string().min(1).optional(),
+  since: z.coerce.number().int().min(0).optional(),
+  // Raw values returned per metric; aggregations use all of them
+  limit: z.coerce.number().int().min(0).max(1000).default(100),
+});
+
+export const apiKeyScopeSchema = z.enum(["generate", "worker", "admin"]);
+
+export const apiKeyCreateSchema = z.object({
+  // Who or what the key is for, e.g. "ci" or "office browser worker"
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  // Override the server's generate rate limit, token quota and highest
+  // scheduling class for this key
+  rate_limit_per_minute: z.number().int().min(1).max(100_000).optional(),
+  token_quota: z.number().int().min(1).optional(),
+  max_priority: jobPrioritySchema.optional(),
+});
+
+export const usageQuerySchema = z.object({
+  // Admin keys may look up any key; other keys only see their own usage
+  key_id: z.string().min(1).optional(),
+});
+
+export type ApiKeyCreateRequest = z.infer<typeof apiKeyCreateSchema>;
+
+export const workerConnectSchema = z.object({
+  worker_id: z.string().min(1).optional(),
+  // Jobs the worker is willing to run at once
+  capacity: z.number().int().min(1).max(8).default(1),
+  // Model the worker has in memory, and the ones it could load
+  model: z.string().min(1).nullable().default(null),
+  models: z.array(z.string().min(1)).max(500).default([]),
+});
+
+const nonNegative = z.number().min(0);
+
+export const workerTelemetrySchema = z.object({
+  compatibility: z.object({
+    webgpu_available: z.boolean(),
+    storage_available: z.boolean(),
+    persistent_storage: z.boolean(),
+    storage_quota_gb: nonNegative,
+    storage_used_gb: nonNegative,
+    device_memory_gb: nonNegative,
+    estimated_vram_gb: nonNegative,
+  }),
+  model: z.string().min(1).nullable(),
+  embedding_model: z.string().min(1).nullable(),
+  runtime: z.object({
+    generations: z.number().int().min(0),
+    decode_tokens_per_second: nonNegative.nullable(),
+    time_to_first_token_ms: nonNegative.nullable(),
+    loading_model: z.string().min(1).nullable(),
+    errors: z.object({
+      generation: z.number().int().min(0),
+      device_lost: z.number().int().min(0),
+      out_of_memory: z.number().int().min(0),
+    }),
+  }),
+});
+
+export const workerUpstreamMessageSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("heartbeat"), telemetry: workerTelemetrySchema.optional() }),
+  z.object({ type: z.literal("renew"), id: z.string().min(1) }),
+  z.object({ type: z.literal("chunk"), id: z.string().min(1), delta: z.string() }),
+  z.object({ type: z.literal("model_progress"), id: z.string().min(1), progress: z.number().min(0).max(100) }),
+  z.object({
+    type: z.literal("model_result"),
+    id: z.string().min(1),
+    // Absent when the command succeeded
+    error: z.string().max(2000).optional(),
+    model: z.string().min(1).nullable(),
+    models: z.array(z.string().min(1)).max(500),
+  }),
+]);
+
+export const workerUpstreamSchema = z.object({
+  worker_id: z.string().min(1),
+  messages: z.array(workerUpstreamMessageSchema).max(100).default([]),
+});
+
+export const modelListQuerySchema = z.object({
+  // Resources to suggest models for
+  vram_gb: z.coerce.number().min(0).optional(),
+  storage_free_gb: z.coerce.number().min(0).optional(),
+});
+
+export const modelActionSchema = z.enum(["load", "unload", "download"]);
+
+export const modelCommandSchema = z.object({
+  model_id: z.string().min(1).max(200),
+  action: modelActionSchema.default("load"),
+  // Any suitable worker when omitted
+  worker_id: z.string().min(1).optional(),
+});
+
+export const modelOperationQuerySchema = z.object({
+  stream: z.enum(["true", "false"]).default("false").transform((value) => value === "true"),
+});
+
+export const workerPollQuerySchema = z.object({
+  worker_id: z.string().min(1),
+  // Seconds to hold the request open waiting for work; 0 answers immediately
+  wait: z.coerce.number().min(0).max(30).default(0),
+});
+
+export const workerResultSchema = z.object({
+  id: z.string().min(1),
+  worker_id: z.string().min(1),
+  // The generation or embedding result; partial output when cancelled or failed
+  result: z.unknown().optional(),
+  error: z.string().optional(),
+  // Generation was interrupted; result holds the partial output
+  cancelled: z.boolean().optional(),
+  // The engine refused the request as given; error says why
+  rejected: z.boolean().optional(),
+});
+
+export const workerDisconnectSchema = z.object({
+  worker_id: z.string().min(1),
+});
+
+// OpenAI-compatible requests. Unknown fields are dropped rather than
+// rejected, so stock SDKs that send extra defaults keep working.
+
+const openAIContentSchema = z.union([
+  z.string(),
+  z.array(z.object({ type: z.literal("text"), text: z.string() })),
+]);
+
+export const openAIMessageSchema = z.object({
+  role: z.enum(["system", "user", "assistant", "tool"]),
+  // Null on assistant turns that only made tool calls
+  content: openAIContentSchema.nullable().optional(),
+  name: z.string().optional(),
+  tool_calls: z.array(toolCallSchema).optional(),
+  tool_call_id: z.string().optional(),
+});
+
+export type OpenAIMessage = z.infer<typeof openAIMessageSchema>;
+
+const openAIResponseFormatSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text") }),
+  z.object({ type: z.literal("json_object") }),
+  z.object({
+    type: z.literal("json_schema"),
+    json_schema: z.object({
+      name: z.string(),
+      schema: z.record(z.unknown()).optional(),
+      strict: z.boolean().nullable().optional(),
+    }),
+  }),
+]);
+
+const openAISamplingSchema = z.object({
+  model: z.string().min(1),
+  max_tokens: z.number().int().min(1).max(4096).nullable().optional(),
+  temperature: z.number().min(0).max(2).nullable().optional(),
+  top_p: z.number().gt(0).max(1).nullable().optional(),
+  frequency_penalty: z.number().min(-2).max(2).nullable().optional(),
+  presence_penalty: z.number().min(-2).max(2).nullable().optional(),
+  stop: z.union([z.string(), z.array(z.string()).max(4)]).nullable().optional(),
+  seed: z.number().int().nullable().optional(),
+  logit_bias: logitBiasSchema.nullable().optional(),
+  // Only one choice per request is supported
+  n: z.literal(1).nullable().optional(),
+  stream: z.boolean().nullable().optional(),
+  stream_options: z.object({ include_usage: z.boolean().optional() }).nullable().optional(),
+  user: z.string().optional(),
+});
+
+export const chatCompletionRequestSchema = openAISamplingSchema.extend({
+  messages: z.array(openAIMessageSchema).min(1).max(100),
+  max_completion_tokens: z.number().int().min(1).max(4096).nullable().optional(),
+  response_format: openAIResponseFormatSchema.optional(),
+  tools: z.array(toolSchema).nullable().optional(),
+  tool_choice: toolChoiceSchema.nullable().optional(),
+  // Accepted for compatibility; the model may always make several calls
+  parallel_tool_calls: z.boolean().nullable().optional(),
+});
+
+export type ChatCompletionRequest = z.infer<typeof chatCompletionRequestSchema>;
+
+export const completionRequestSchema = openAISamplingSchema.extend({
+  // Batched prompts are not supported, but a one-element array is accepted
+  prompt: z.union([z.string(), z.array(z.string()).length(1)]),
+});
+
+export type CompletionRequest = z.infer<typeof completionRequestSchema>;
+
+export const openAIEmbeddingRequestSchema = z.object({
+  model: z.string().min(1),
+  // Token-array inputs are not supported
+  input: z.union([z.string(), z.array(z.string())]),
+  encoding_format: z.enum(["float", "base64"]).optional(),
+  dimensions: z.undefined({ invalid_type_error: "dimensions is not supported; models return their native size" }).optional(),
+  user: z.string().optional(),
+});
+
+export type OpenAIEmbeddingRequest = z.infer<typeof openAIEmbeddingRequestSchema>;
+
+// Ollama-compatible requests. As with the OpenAI routes, unknown fields and
+// options are dropped.
+
+export const ollamaOptionsSchema = z.object({
+  temperature: z.number().optional(),
+  top_p: z.number().optional(),
+  top_k: z.number().optional(),
+  // -1 and -2 mean "until the context is full"; both leave the default
+  num_predict: z.number().int().optional(),
+  stop: z.array(z.string()).optional(),
+  frequency_penalty: z.number().optional(),
+  presence_penalty: z.number().optional(),
+  seed: z.number().int().optional(),
+});
+
+const ollamaBaseSchema = z.object({
+  model: z.string().min(1),
+  // Ollama streams unless told otherwise
+  stream: z.boolean().default(true),
+  // "json" or a JSON schema
+  format: z.union([z.literal("json"), z.record(z.unknown())]).optional(),
+  options: ollamaOptionsSchema.default({}),
+});
+
+export const ollamaGenerateRequestSchema = ollamaBaseSchema.extend({
+  // Empty, with no system prompt, asks to load the model
+  prompt: z.string(),
+  system: z.string().optional(),
+});
+
+export type OllamaGenerateRequest = z.infer<typeof ollamaGenerateRequestSchema>;
+
+export const ollamaChatRequestSchema = ollamaBaseSchema.extend({
+  // Empty asks to load the model
+  messages: z.array(z.object({
+    role: z.enum(["system", "user", "assistant"]),
+    content: z.string(),
+  })).max(100),
 });
 
-export type GenerateRequest = z.infer<typeof generateRequestSchema>;
\ No newline at end of file
+export type OllamaChatRequest = z.infer<typeof ollamaChatRequestSchema>;
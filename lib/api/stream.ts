@@ -0,0 +1,58 @@
+import { jobQueue, QueueError, type JobEvent } from "./queue";
+
+export const sseHeaders = {
+  "Content-Type": "text/event-stream; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+  Connection: "keep-alive",
+};
+
+export function sseEvent(data: unknown): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+export const ndjsonHeaders = {
+  "Content-Type": "application/x-ndjson; charset=utf-8",
+  "Cache-Control": "no-cache, no-transform",
+};
+
+export function ndjsonLine(data: unknown): string {
+  return `${JSON.stringify(data)}\n`;
+}
+
+/**
+ * Turns a job's events into a byte stream in whatever wire format the route speaks.
+ * The stream closes after the finished event; if the caller hangs up first,
+ * the job is cancelled so the worker stops generating.
+ * @param jobId - Job to follow
+ * @param format - Serializes one event; return null to skip it
+ */
+export function createJobStream(
+  jobId: string,
+  format: (event: JobEvent) => string | null,
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let unsubscribe: (() => void) | null = null;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      unsubscribe = jobQueue.subscribe(jobId, (event) => {
+        const payload = format(event);
+        if (payload) {
+          controller.enqueue(encoder.encode(payload));
+        }
+
+        if (event.type === "finished") {
+          controller.close();
+        }
+      });
+    },
+    cancel() {
+      unsubscribe?.();
+      try {
+        jobQueue.cancelJob(jobId);
+      } catch (error) {
+        if (!(error instanceof QueueError)) throw error;
+      }
+    },
+  });
+}
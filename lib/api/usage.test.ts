@@ -0,0 +1,170 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { apiKeyStore, BOOTSTRAP_KEY_ID } from "./api-keys";
+import { getLimitsConfig, type LimitsConfig } from "./limits-config";
+import { getPeriodBounds, getUsagePeriod, UsageTracker } from "./usage";
+
+const OCT_19_NOON = Date.UTC(2026, 9, 19, 12);
+
+const dir = mkdtempSync(path.join(tmpdir(), "usage-test-"));
+let trackers = 0;
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function createTracker(overrides: Partial<LimitsConfig> = {}) {
+  const usagePath = path.join(dir, `usage-${trackers++}.json`);
+  const config = { ...getLimitsConfig(), tokenQuota: 0, quotaPeriod: "day" as const, usagePath, ...overrides };
+  return { tracker: new UsageTracker(config), usagePath };
+}
+
+describe("usage periods", () => {
+  it("names periods in UTC", () => {
+    expect(getUsagePeriod("day", OCT_19_NOON)).toBe("2026-10-19");
+    expect(getUsagePeriod("month", OCT_19_NOON)).toBe("2026-10");
+  });
+
+  it("bounds a day", () => {
+    expect(getPeriodBounds("day", OCT_19_NOON)).toEqual({
+      start: Date.UTC(2026, 9, 19),
+      end: Date.UTC(2026, 9, 20),
+    });
+  });
+
+  it("bounds a month, across a year end", () => {
+    expect(getPeriodBounds("month", Date.UTC(2026, 11, 31, 23))).toEqual({
+      start: Date.UTC(2026, 11, 1),
+      end: Date.UTC(2027, 0, 1),
+    });
+  });
+});
+
+describe("UsageTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(OCT_19_NOON);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts requests and reported tokens per key", () => {
+    const { tracker } = createTracker();
+    tracker.recordRequest("a");
+    tracker.recordRequest("a");
+    tracker.recordTokens("a", { prompt_tokens: 10, completion_tokens: 5 });
+    tracker.recordTokens("b", { prompt_tokens: 1, completion_tokens: 2 });
+
+    expect(tracker.get("a")).toMatchObject({
+      key_id: "a",
+      period: "2026-10-19",
+      requests: 2,
+      prompt_tokens: 10,
+      completion_tokens: 5,
+      total_tokens: 15,
+      resets_at: Date.UTC(2026, 9, 20),
+    });
+    expect(tracker.list().map((usage) => usage.key_id).sort()).toEqual(["a", "b"]);
+  });
+
+  it("ignores token counts that aren't positive numbers", () => {
+    const { tracker } = createTracker();
+    tracker.recordTokens("a", { prompt_tokens: -5, completion_tokens: "12" });
+    tracker.recordTokens("a", { prompt_tokens: 2.6, completion_tokens: Number.NaN });
+    tracker.recordTokens("a", undefined);
+
+    expect(tracker.get("a")).toMatchObject({ prompt_tokens: 3, completion_tokens: 0 });
+  });
+
+  it("reports zero usage for keys it hasn't seen, without keeping them", () => {
+    const { tracker } = createTracker();
+
+    expect(tracker.get("idle").requests).toBe(0);
+    expect(tracker.list()).toEqual([]);
+  });
+
+  it("starts counting again in a new period", () => {
+    const { tracker } = createTracker();
+    tracker.recordTokens("a", { prompt_tokens: 10, completion_tokens: 10 });
+
+    vi.setSystemTime(Date.UTC(2026, 9, 20, 0, 0, 1));
+    expect(tracker.get("a")).toMatchObject({ period: "2026-10-20", total_tokens: 0 });
+    expect(tracker.list()).toEqual([]);
+
+    tracker.recordRequest("a");
+    expect(tracker.get("a").requests).toBe(1);
+  });
+
+  it("has no quota when the configured quota is 0", () => {
+    const { tracker } = createTracker({ tokenQuota: 0 });
+
+    expect(tracker.getQuota("a")).toBeNull();
+    expect(tracker.get("a")).toMatchObject({ token_quota: null, remaining_tokens: null });
+  });
+
+  it("counts used tokens against the quota", () => {
+    const { tracker } = createTracker({ tokenQuota: 100 });
+    tracker.recordTokens("a", { prompt_tokens: 30, completion_tokens: 40 });
+
+    expect(tracker.getQuota("a")).toEqual({
+      limit: 100,
+      used: 70,
+      remaining: 30,
+      resetsAt: Date.UTC(2026, 9, 20),
+    });
+
+    tracker.recordTokens("a", { prompt_tokens: 50, completion_tokens: 0 });
+    expect(tracker.getQuota("a")?.remaining).toBe(0);
+  });
+
+  it("resets monthly quotas at the start of the next month", () => {
+    const { tracker } = createTracker({ tokenQuota: 100, quotaPeriod: "month" });
+
+    expect(tracker.getQuota("a")?.resetsAt).toBe(Date.UTC(2026, 10, 1));
+    expect(tracker.get("a").period).toBe("2026-10");
+  });
+
+  it("lets a key's own quota override the default", () => {
+    const { tracker } = createTracker({ tokenQuota: 100 });
+    const { record } = apiKeyStore.issue("quota test", ["generate"], { tokenQuota: 10 });
+
+    expect(tracker.getQuota(record.id)?.limit).toBe(10);
+  });
+
+  it("never limits admin keys", () => {
+    const { tracker } = createTracker({ tokenQuota: 100 });
+    const { record } = apiKeyStore.issue("admin test", ["admin"], { tokenQuota: 10 });
+
+    expect(tracker.getQuota(record.id)).toBeNull();
+    expect(tracker.getQuota(BOOTSTRAP_KEY_ID)).toBeNull();
+  });
+
+  it("writes usage to disk after a short delay", async () => {
+    const { tracker, usagePath } = createTracker();
+    tracker.recordRequest("a");
+    expect(existsSync(usagePath)).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await vi.waitFor(() => expect(existsSync(usagePath)).toBe(true));
+
+    const stored = JSON.parse(readFileSync(usagePath, "utf8"));
+    expect(stored.records).toEqual([
+      { keyId: "a", period: "2026-10-19", requests: 1, promptTokens: 0, completionTokens: 0 },
+    ]);
+  });
+
+  it("picks up usage stored by an earlier run", () => {
+    const { usagePath } = createTracker();
+    writeFileSync(usagePath, JSON.stringify({
+      version: 1,
+      records: [{ keyId: "a", period: "2026-10-19", requests: 3, promptTokens: 7, completionTokens: 8 }],
+    }));
+
+    const tracker = new UsageTracker({ ...getLimitsConfig(), usagePath });
+    expect(tracker.get("a")).toMatchObject({ requests: 3, total_tokens: 15 });
+  });
+});
@@ -0,0 +1,209 @@
+import { mkdirSync, readFileSync } from "node:fs";
+import { mkdir, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import type { UsageResponse } from "@/types/api";
+import { apiKeyStore, isAdminKeyId } from "./api-keys";
+import { getLimitsConfig, type LimitsConfig, type QuotaPeriod } from "./limits-config";
+
+// Batches bursts of finished jobs into one write
+const FILE_WRITE_DEBOUNCE_MS = 1000;
+const FILE_FORMAT_VERSION = 1;
+
+// One key's consumption within one quota period
+export interface UsageRecord {
+  keyId: string;
+  period: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  // When the period ends and usage starts again from zero
+  resetsAt: number;
+}
+
+/**
+ * Period a timestamp falls in, in UTC: "2026-10-19" for daily quotas,
+ * "2026-10" for monthly ones
+ */
+export function getUsagePeriod(period: QuotaPeriod, at = Date.now()): string {
+  const iso = new Date(at).toISOString();
+  return period === "month" ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+/**
+ * @returns When the period containing `at` starts and ends
+ */
+export function getPeriodBounds(period: QuotaPeriod, at = Date.now()): { start: number; end: number } {
+  const date = new Date(at);
+  if (period === "month") {
+    return {
+      start: Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1),
+      end: Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1),
+    };
+  }
+
+  const start = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return { start, end: start + 24 * 60 * 60 * 1000 };
+}
+
+function toCount(value: unknown): number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? Math.round(value) : 0;
+}
+
+/**
+ * Requests and tokens used by each API key in the current quota period.
+ * Only the current period is kept; a key's counters start over when a new
+ * one begins.
+ */
+export class UsageTracker {
+  private readonly filePath: string;
+
+  private records = new Map<string, UsageRecord>();
+
+  private writeTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly config: LimitsConfig = getLimitsConfig()) {
+    this.filePath = path.resolve(config.usagePath);
+    this.load();
+  }
+
+  recordRequest(keyId: string) {
+    this.current(keyId).requests += 1;
+    this.scheduleWrite();
+  }
+
+  /**
+   * Adds the usage a worker reported for a finished job
+   */
+  recordTokens(keyId: string, usage: { prompt_tokens?: unknown; completion_tokens?: unknown } | undefined) {
+    if (!usage) return;
+
+    const record = this.current(keyId);
+    record.promptTokens += toCount(usage.prompt_tokens);
+    record.completionTokens += toCount(usage.completion_tokens);
+    this.scheduleWrite();
+  }
+
+  /**
+   * How much of its token quota a key has left
+   * @returns null when the key has no quota. Admin keys never do.
+   */
+  getQuota(keyId: string): QuotaStatus | null {
+    const limit = this.getQuotaLimit(keyId);
+    if (limit === null) return null;
+
+    const record = this.peek(keyId);
+    const used = record.promptTokens + record.completionTokens;
+    return {
+      limit,
+      used,
+      remaining: Math.max(0, limit - used),
+      resetsAt: getPeriodBounds(this.config.quotaPeriod).end,
+    };
+  }
+
+  get(keyId: string): UsageResponse {
+    const record = this.peek(keyId);
+    const quota = this.getQuota(keyId);
+    const { start, end } = getPeriodBounds(this.config.quotaPeriod);
+
+    return {
+      key_id: keyId,
+      period: record.period,
+      period_start: start,
+      resets_at: end,
+      requests: record.requests,
+      prompt_tokens: record.promptTokens,
+      completion_tokens: record.completionTokens,
+      total_tokens: record.promptTokens + record.completionTokens,
+      token_quota: quota?.limit ?? null,
+      remaining_tokens: quota?.remaining ?? null,
+    };
+  }
+
+  /**
+   * Usage of every key that has made a request this period
+   */
+  list(): UsageResponse[] {
+    const period = getUsagePeriod(this.config.quotaPeriod);
+    return Array.from(this.records.values())
+      .filter((record) => record.period === period)
+      .map((record) => this.get(record.keyId));
+  }
+
+  private getQuotaLimit(keyId: string): number | null {
+    if (isAdminKeyId(keyId)) return null;
+
+    const limit = apiKeyStore.get(keyId)?.tokenQuota ?? this.config.tokenQuota;
+    return limit > 0 ? limit : null;
+  }
+
+  // This period's record for a key, without storing one for idle keys
+  private peek(keyId: string): UsageRecord {
+    const period = getUsagePeriod(this.config.quotaPeriod);
+    const record = this.records.get(keyId);
+
+    return record?.period === period
+      ? record
+      : { keyId, period, requests: 0, promptTokens: 0, completionTokens: 0 };
+  }
+
+  private current(keyId: string): UsageRecord {
+    const record = this.peek(keyId);
+    this.records.set(keyId, record);
+    return record;
+  }
+
+  private load() {
+    try {
+      const parsed = JSON.parse(readFileSync(this.filePath, "utf8")) as { version: number; records: UsageRecord[] };
+      if (parsed.version !== FILE_FORMAT_VERSION || !Array.isArray(parsed.records)) {
+        console.warn(`Ignoring usage store ${this.filePath}: unsupported format`);
+        return;
+      }
+
+      this.records = new Map(parsed.records.map((record) => [record.keyId, record]));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read usage store ${this.filePath}`, error);
+      }
+      mkdirSync(path.dirname(this.filePath), { recursive: true });
+    }
+  }
+
+  private scheduleWrite() {
+    if (this.writeTimer) return;
+
+    this.writeTimer = setTimeout(() => {
+      this.writeTimer = null;
+      this.writing = this.writing.then(() => this.write());
+    }, FILE_WRITE_DEBOUNCE_MS);
+  }
+
+  private async write() {
+    const payload = JSON.stringify({ version: FILE_FORMAT_VERSION, records: Array.from(this.records.values()) });
+    const tempPath = `${this.filePath}.tmp`;
+
+    try {
+      await mkdir(path.dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, payload, "utf8");
+      await rename(tempPath, this.filePath);
+    } catch (error) {
+      console.error(`Failed to write usage store ${this.filePath}`, error);
+    }
+  }
+}
+
+// Global singleton for Next.js dev server hot reload persistence
+const globalForUsage = globalThis as unknown as { usageTracker: UsageTracker };
+
+export const usageTracker = globalForUsage.usageTracker || new UsageTracker();
+
+if (process.env.NODE_ENV !== "production") globalForUsage.usageTracker = usageTracker;
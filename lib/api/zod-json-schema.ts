@@ -0,0 +1,201 @@
+import { z } from "zod";
+import type { JsonSchema } from "./json-schema";
+
+export interface ToJsonSchemaOptions {
+  // Schemas to point at by name instead of inlining, e.g. OpenAPI components
+  refs?: Map<z.ZodTypeAny, string>;
+  // Where the named schemas live, e.g. "#/components/schemas/"
+  refPrefix?: string;
+}
+
+/**
+ * JSON Schema (draft 2020-12, the dialect OpenAPI 3.1 uses) for what a zod
+ * schema accepts. Refinements and transforms have no JSON Schema form, so
+ * effects and pipelines are described by their input. Zod types without a
+ * counterpart, such as functions, allow any value.
+ * @param schema - Converted inline even when it is one of the named refs
+ */
+export function toJsonSchema(schema: z.ZodTypeAny, options: ToJsonSchemaOptions = {}): JsonSchema {
+  return withDescription(schema, convertType(schema, options));
+}
+
+function convert(schema: z.ZodTypeAny, options: ToJsonSchemaOptions): JsonSchema {
+  const name = options.refs?.get(schema);
+  if (name !== undefined) {
+    return { $ref: `${options.refPrefix ?? "#/$defs/"}${name}` };
+  }
+
+  return toJsonSchema(schema, options);
+}
+
+function withDescription(schema: z.ZodTypeAny, json: JsonSchema): JsonSchema {
+  return schema.description ? { ...json, description: schema.description } : json;
+}
+
+function convertType(schema: z.ZodTypeAny, options: ToJsonSchemaOptions): JsonSchema {
+  if (schema instanceof z.ZodString) return convertString(schema);
+  if (schema instanceof z.ZodNumber) return convertNumber(schema);
+  if (schema instanceof z.ZodBoolean) return { type: "boolean" };
+  if (schema instanceof z.ZodNull) return { type: "null" };
+  if (schema instanceof z.ZodUndefined || schema instanceof z.ZodNever) return { not: {} };
+  if (schema instanceof z.ZodLiteral) return convertLiteral(schema.value);
+  if (schema instanceof z.ZodEnum) return { type: "string", enum: [...schema.options] };
+  if (schema instanceof z.ZodNativeEnum) return { enum: Object.values(schema.enum) };
+  if (schema instanceof z.ZodObject) return convertObject(schema, options);
+  if (schema instanceof z.ZodArray) return convertArray(schema, options);
+
+  if (schema instanceof z.ZodTuple) {
+    return {
+      type: "array",
+      prefixItems: schema.items.map((item: z.ZodTypeAny) => convert(item, options)),
+      ...(schema._def.rest ? { items: convert(schema._def.rest, options) } : { items: false }),
+    };
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    const keyPattern = schema.keySchema instanceof z.ZodString ? convertString(schema.keySchema).pattern : undefined;
+    return {
+      type: "object",
+      additionalProperties: convert(schema.valueSchema, options),
+      ...(keyPattern ? { propertyNames: { pattern: keyPattern } } : {}),
+    };
+  }
+
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: schema.options.map((option: z.ZodTypeAny) => convert(option, options)) };
+  }
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return { oneOf: schema.options.map((option: z.ZodTypeAny) => convert(option, options)) };
+  }
+  if (schema instanceof z.ZodIntersection) {
+    return { allOf: [convert(schema._def.left, options), convert(schema._def.right, options)] };
+  }
+
+  if (schema instanceof z.ZodNullable) return nullable(convert(schema.unwrap(), options));
+  if (schema instanceof z.ZodOptional) return convert(schema.unwrap(), options);
+  if (schema instanceof z.ZodDefault) {
+    return { ...convert(schema._def.innerType, options), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) return convert(schema.innerType(), options);
+  if (schema instanceof z.ZodPipeline) return convert(schema._def.in, options);
+  if (schema instanceof z.ZodLazy) return convert(schema.schema, options);
+  if (schema instanceof z.ZodBranded) return convert(schema.unwrap(), options);
+  if (schema instanceof z.ZodReadonly || schema instanceof z.ZodCatch) {
+    return convert(schema._def.innerType, options);
+  }
+
+  return {};
+}
+
+// Only strings, numbers, booleans and null exist in JSON; a bigint is
+// sent as a number, and undefined or a symbol can't be sent at all
+function convertLiteral(value: unknown): JsonSchema {
+  switch (typeof value) {
+    case "string":
+    case "boolean":
+      return { type: typeof value, const: value };
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number", const: value };
+    case "bigint":
+      return { type: "integer", const: Number(value) };
+    default:
+      return value === null ? { type: "null" } : { not: {} };
+  }
+}
+
+function convertString(schema: z.ZodString): JsonSchema {
+  const json: JsonSchema = { type: "string" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "min":
+        json.minLength = check.value;
+        break;
+      case "max":
+        json.maxLength = check.value;
+        break;
+      case "length":
+        json.minLength = check.value;
+        json.maxLength = check.value;
+        break;
+      case "regex":
+        json.pattern = check.regex.source;
+        break;
+      case "email":
+        json.format = "email";
+        break;
+      case "url":
+        json.format = "uri";
+        break;
+      case "uuid":
+        json.format = "uuid";
+        break;
+      case "datetime":
+        json.format = "date-time";
+        break;
+    }
+  }
+
+  return json;
+}
+
+function convertNumber(schema: z.ZodNumber): JsonSchema {
+  const json: JsonSchema = { type: "number" };
+
+  for (const check of schema._def.checks) {
+    switch (check.kind) {
+      case "int":
+        json.type = "integer";
+        break;
+      case "min":
+        json[check.inclusive ? "minimum" : "exclusiveMinimum"] = check.value;
+        break;
+      case "max":
+        json[check.inclusive ? "maximum" : "exclusiveMaximum"] = check.value;
+        break;
+      case "multipleOf":
+        json.multipleOf = check.value;
+        break;
+    }
+  }
+
+  return json;
+}
+
+function convertObject(schema: z.AnyZodObject, options: ToJsonSchemaOptions): JsonSchema {
+  const shape: Record<string, z.ZodTypeAny> = schema.shape;
+  const properties = Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, convert(value, options)]));
+  // Zod treats keys whose schema accepts undefined as optional
+  const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+  const catchall: z.ZodTypeAny = schema._def.catchall;
+
+  return {
+    type: "object",
+    properties,
+    ...(required.length > 0 ? { required } : {}),
+    ...(!(catchall instanceof z.ZodNever)
+      ? { additionalProperties: convert(catchall, options) }
+      : schema._def.unknownKeys === "strict"
+        ? { additionalProperties: false }
+        : {}),
+  };
+}
+
+function convertArray(schema: z.ZodArray<z.ZodTypeAny>, options: ToJsonSchemaOptions): JsonSchema {
+  const { minLength, maxLength, exactLength } = schema._def;
+
+  return {
+    type: "array",
+    items: convert(schema.element, options),
+    ...(minLength ? { minItems: minLength.value } : {}),
+    ...(maxLength ? { maxItems: maxLength.value } : {}),
+    ...(exactLength ? { minItems: exactLength.value, maxItems: exactLength.value } : {}),
+  };
+}
+
+function nullable(json: JsonSchema): JsonSchema {
+  if (typeof json.type === "string" && json.enum === undefined && json.const === undefined) {
+    return { ...json, type: [json.type, "null"] };
+  }
+  return { anyOf: [json, { type: "null" }] };
+}
@@ -1,9 +1,11 @@
 export const STORAGE_KEYS = {
   downloadedModels: "tattvamente.downloaded-models",
   loadedModelId: "tattvamente.loaded-model-id",
+  loadedEmbeddingModelId: "tattvamente.loaded-embedding-model-id",
   generationSettings: "tattvamente.generation-settings",
   enabledModels: "tattvamente.enabled-models",
   providerOverrides: "tattvamente.provider-overrides",
+  workerApiKey: "tattvamente.worker-api-key",
 } as const;
 
 export type DownloadedModelsMap = Record<
@@ -77,6 +79,23 @@ export function setLoadedModelId(modelId: string): void {
   window.dispatchEvent(new Event("tattvamente:model-loaded"));
 }
 
+export function getLoadedEmbeddingModelId(): string | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+
+  return window.localStorage.getItem(STORAGE_KEYS.loadedEmbeddingModelId);
+}
+
+export function setLoadedEmbeddingModelId(modelId: string): void {
+  if (typeof window === "undefined") {
+    return;
+  }
+
+  window.localStorage.setItem(STORAGE_KEYS.loadedEmbeddingModelId, modelId);
+  window.dispatchEvent(new Event("tattvamente:model-loaded"));
+}
+
 export async function deleteModelFromCache(modelId: string): Promise<void> {
   if (typeof window === "undefined") {
     return;
@@ -120,6 +139,7 @@ export async function clearAllWebLLMCaches(): Promise<void> {
   // 1. Clear Local Storage tracking
   window.localStorage.removeItem(STORAGE_KEYS.downloadedModels);
   window.localStorage.removeItem(STORAGE_KEYS.loadedModelId);
+  window.localStorage.removeItem(STORAGE_KEYS.loadedEmbeddingModelId);
 
   // 2. Delete all WebLLM caches
   try {
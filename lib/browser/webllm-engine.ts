@@ -1,10 +1,19 @@
 "use client";
 
-import type { ModelInfo } from "@/types/api";
+import type { ModelInfo, ToolCall, ToolChoice, ToolDefinition } from "@/types/api";
 
 type WebLLMModule = typeof import("@mlc-ai/web-llm");
 type MLCEngine = any; // TODO: Import proper type from @mlc-ai/web-llm when available
 
+// A chat turn as the API and ChatShell hold it. Assistant turns may carry
+// the tool calls they made, and tool turns the call they answer.
+export interface EngineMessage {
+  role: string;
+  content: string;
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
 // Singleton pattern for module loading
 let webllmModulePromise: Promise<WebLLMModule> | null = null;
 
@@ -16,6 +25,129 @@ interface EngineState {
 }
 
 let activeEngineState: EngineState | null = null;
+// Embedding models run in their own engine, so loading one doesn't unload
+// the chat model
+let activeEmbeddingState: EngineState | null = null;
+
+// Capability tag for models that produce vectors rather than text
+export const EMBEDDING_CAPABILITY = "embedding";
+
+// Runtime averages cover this many recent generations
+const RUNTIME_STATS_WINDOW = 20;
+
+let recentUsage: WebLLMUsage[] = [];
+let generationCount = 0;
+let loadingModelId: string | null = null;
+const engineErrors = { generation: 0, device_lost: 0, out_of_memory: 0 };
+
+// WebLLM errors raised while checking a request, before any token is
+// generated. They mean the loaded model can't serve the request as given.
+const REQUEST_ERROR_NAMES = new Set([
+  "ConfigValueError",
+  "MinValueError",
+  "RangeError",
+  "NonNegativeError",
+  "InvalidNumberStringError",
+  "DependencyError",
+  "UnsupportedFieldsError",
+  "SeedTypeError",
+  "MessageOrderError",
+  "SystemMessageOrderError",
+  "UnsupportedRoleError",
+  "ContentTypeError",
+  "InvalidResponseFormatError",
+  "CustomResponseFormatError",
+  "UnsupportedModelIdError",
+  "CustomSystemPromptError",
+  "ContextWindowSizeExceededError",
+  "EmbeddingUnsupportedEncodingFormatError",
+  "EmbeddingUnsupportedModelError",
+  "EmbeddingExceedContextWindowSizeError",
+  "EmbeddingInputEmptyError",
+]);
+
+/**
+ * The engine refused a request because of its parameters or messages,
+ * as opposed to failing while generating
+ */
+export class WebLLMRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebLLMRequestError";
+  }
+}
+
+export interface WebLLMGenerationOptions {
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
+  stop?: string[];
+  seed?: number;
+  // Token ID -> bias added to its logit (-100 to 100)
+  logitBias?: Record<string, number>;
+  // Constrain decoding to valid JSON, matching jsonSchema when given
+  jsonMode?: boolean;
+  jsonSchema?: Record<string, unknown>;
+  // Functions the model may call; only Hermes function-calling models
+  // accept them
+  tools?: ToolDefinition[];
+  toolChoice?: ToolChoice;
+  // Aborting interrupts the engine; the stream ends with the output so far
+  signal?: AbortSignal;
+  // Called once the stream ends, with why it ended and the engine's own
+  // token counts
+  onFinish?: (finish: WebLLMFinish) => void;
+}
+
+// stop: the model ended its turn. cancelled: the signal was aborted.
+export type WebLLMFinishReason = "stop" | "length" | "stop_sequence" | "tool_calls" | "cancelled";
+
+export interface WebLLMFinish {
+  reason: WebLLMFinishReason;
+  // The stop sequence that ended generation, when reason is stop_sequence
+  stopSequence?: string;
+  // null when the engine didn't report usage
+  usage: WebLLMUsage | null;
+}
+
+// Token counts from the model's tokenizer, and timings from the engine
+export interface WebLLMUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  // Mostly prefill: from the request reaching the engine to its first token
+  time_to_first_token_ms: number;
+  decode_tokens_per_second: number;
+}
+
+// How this tab's engines have been doing since the page loaded
+export interface WebLLMRuntimeStats {
+  generations: number;
+  // Means over recent generations; null before the first
+  decode_tokens_per_second: number | null;
+  time_to_first_token_ms: number | null;
+  // Model being loaded right now, if any
+  loading_model: string | null;
+  errors: {
+    // Failed generations, embeddings and model loads, not counting refused requests
+    generation: number;
+    // Of those, the ones where the browser lost the WebGPU device
+    device_lost: number;
+    out_of_memory: number;
+  };
+}
+
+export interface WebLLMEmbeddingResult {
+  model: string;
+  // One vector per input, in input order
+  embeddings: number[][];
+  usage: {
+    prompt_tokens: number;
+    total_tokens: number;
+  };
+}
 
 /**
  * Lazy-load the WebLLM module
@@ -36,6 +168,7 @@ async function getWebLLMModule(): Promise<WebLLMModule> {
 export async function getWebLLMModels(limit = 200): Promise<ModelInfo[]> {
   const webllm = await getWebLLMModule();
   const config = (webllm as any).prebuiltAppConfig;
+  const embeddingType = (webllm as any).ModelType?.embedding;
 
   if (!config?.model_list || !Array.isArray(config.model_list)) {
     console.warn("WebLLM model list not found in config");
@@ -57,7 +190,9 @@ export async function getWebLLMModels(limit = 200): Promise<ModelInfo[]> {
         downloaded: false,
         speed_tier: getSpeedTier(vramGb),
         quality_tier: getQualityTier(vramGb),
-        capabilities: ["text-generation", "chat"],
+        capabilities: entry?.model_type === embeddingType && embeddingType !== undefined
+          ? [EMBEDDING_CAPABILITY]
+          : ["text-generation", "chat"],
         source: {
           provider: "webllm",
           model_uri: modelId,
@@ -87,80 +222,172 @@ export async function ensureWebLLMModelLoaded(
     await cleanupEngine();
   }
 
-  const webllm = await getWebLLMModule();
+  // Store active engine state
+  activeEngineState = await createEngine(modelId, onProgress);
 
-  // Create dedicated worker for inference
-  const worker = new Worker(
-    new URL("../../workers/inference.worker.ts", import.meta.url),
-    { type: "module" }
-  );
+  onProgress?.(100);
+}
 
-  // Initialize engine with progress tracking
-  const engine = await (webllm as any).CreateWebWorkerMLCEngine(
-    worker,
-    modelId,
-    {
-      initProgressCallback: (report: any) => {
-        const progress = normalizeProgress(report);
-        onProgress?.(progress);
-      },
-    }
-  );
+/**
+ * Ensure a WebLLM embedding model is loaded, alongside any chat model
+ * Reuses the existing embedding engine if the same model is already loaded
+ * @param modelId - The embedding model ID to load
+ * @param onProgress - Optional callback for loading progress (0-100)
+ */
+export async function ensureWebLLMEmbeddingModelLoaded(
+  modelId: string,
+  onProgress?: (progress: number) => void,
+): Promise<void> {
+  if (activeEmbeddingState?.modelId === modelId) {
+    onProgress?.(100);
+    return;
+  }
 
-  // Store active engine state
-  activeEngineState = {
-    modelId,
-    engine,
-    worker,
-  };
+  if (activeEmbeddingState) {
+    await cleanupEmbeddingEngine();
+  }
+
+  activeEmbeddingState = await createEngine(modelId, onProgress);
 
   onProgress?.(100);
 }
 
+/**
+ * Embed a batch of texts with the loaded embedding model
+ * WebLLM splits the batch to fit the model's compiled batch size.
+ * @param inputs - Texts to embed
+ * @returns One vector per input, with token usage
+ */
+export async function embedWithWebLLM(inputs: string[]): Promise<WebLLMEmbeddingResult> {
+  if (!activeEmbeddingState?.engine) {
+    throw new Error("No WebLLM embedding model is loaded. Call ensureWebLLMEmbeddingModelLoaded() first.");
+  }
+
+  try {
+    const response = await activeEmbeddingState.engine.embeddings.create({ input: inputs });
+    const data = [...response.data].sort((a: any, b: any) => a.index - b.index);
+
+    return {
+      model: activeEmbeddingState.modelId,
+      embeddings: data.map((entry: any) => entry.embedding),
+      usage: {
+        prompt_tokens: response.usage?.prompt_tokens ?? 0,
+        total_tokens: response.usage?.total_tokens ?? 0,
+      },
+    };
+  } catch (error) {
+    console.error("WebLLM embedding error:", error);
+    throw recordEngineError(toGenerationError(error), error);
+  }
+}
+
+/**
+ * Check whether a catalog entry is an embedding model
+ */
+export function isEmbeddingModel(model: Pick<ModelInfo, "capabilities">): boolean {
+  return model.capabilities.includes(EMBEDDING_CAPABILITY);
+}
+
 /**
  * Generate text using streaming with WebLLM
+ * When tools are active the chunks are the raw JSON list of calls; pass
+ * the joined output to parseToolCalls().
  * @param input - Either a string prompt or array of chat messages
- * @param options - Generation options (maxTokens, temperature)
+ * @param options - Generation options (maxTokens, temperature, signal, onFinish)
  * @yields Text chunks as they are generated
  */
 export async function* generateStreamWithWebLLM(
-  input: string | Array<{ role: string; content: string }>,
-  options?: {
-    maxTokens?: number;
-    temperature?: number;
-    topP?: number;
-    frequencyPenalty?: number;
-    presencePenalty?: number;
-  },
+  input: string | EngineMessage[],
+  options?: WebLLMGenerationOptions,
 ): AsyncGenerator<string> {
   if (!activeEngineState?.engine) {
     throw new Error("WebLLM engine is not loaded. Call ensureWebLLMModelLoaded() first.");
   }
 
+  const engine = activeEngineState.engine;
+  if (options?.signal?.aborted) {
+    return;
+  }
+
   const messages = normalizeInput(input);
+  // Stop sequences are matched here rather than by the engine, which
+  // reports them as a plain "stop" without saying which one matched
+  const stopMatcher = options?.stop?.length ? new StopSequenceMatcher(options.stop) : null;
   const generationParams = {
     messages,
     max_tokens: options?.maxTokens ?? 256,
     temperature: clamp(options?.temperature ?? 0.7, 0, 2),
-    top_p: options?.topP ? clamp(options.topP, 0, 1) : undefined,
-    frequency_penalty: options?.frequencyPenalty ? clamp(options.frequencyPenalty, 0, 2) : undefined,
-    presence_penalty: options?.presencePenalty ? clamp(options.presencePenalty, 0, 2) : undefined,
+    top_p: options?.topP,
+    frequency_penalty: options?.frequencyPenalty,
+    presence_penalty: options?.presencePenalty,
+    seed: options?.seed,
+    logit_bias: options?.logitBias,
+    response_format: toResponseFormat(options),
+    tools: resolveTools(options?.tools, options?.toolChoice),
     stream: true,
+    stream_options: { include_usage: true },
   };
 
+  const interrupt = () => {
+    void engine.interruptGenerate();
+  };
+  options?.signal?.addEventListener("abort", interrupt);
+
+  let engineReason: string | null = null;
+  let usage: WebLLMUsage | null = null;
+
   try {
-    const chunks = await activeEngineState.engine.chat.completions.create(generationParams);
+    const chunks = await engine.chat.completions.create(generationParams);
 
     for await (const chunk of chunks) {
-      const content = chunk.choices?.[0]?.delta?.content;
-      if (content) {
-        yield content;
+      const choice = chunk.choices?.[0];
+      const content = choice?.delta?.content;
+      if (content && !stopMatcher?.matched) {
+        const text = stopMatcher ? stopMatcher.push(content) : content;
+        if (stopMatcher?.matched) {
+          // Drain the stream for its usage rather than leaving it open
+          interrupt();
+        }
+        if (text) {
+          yield text;
+        }
+      }
+      if (choice?.finish_reason) {
+        engineReason = choice.finish_reason;
       }
+      // Only the last chunk has usage
+      if (chunk.usage) {
+        usage = {
+          prompt_tokens: chunk.usage.prompt_tokens,
+          completion_tokens: chunk.usage.completion_tokens,
+          total_tokens: chunk.usage.total_tokens,
+          time_to_first_token_ms: chunk.usage.extra.time_to_first_token_s * 1000,
+          decode_tokens_per_second: chunk.usage.extra.decode_tokens_per_s,
+        };
+      }
+    }
+
+    const held = stopMatcher && !stopMatcher.matched ? stopMatcher.flush() : "";
+    if (held) {
+      yield held;
     }
   } catch (error) {
     console.error("WebLLM generation error:", error);
-    throw new Error(`Generation failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    throw recordEngineError(toGenerationError(error), error);
+  } finally {
+    options?.signal?.removeEventListener("abort", interrupt);
+  }
+
+  generationCount += 1;
+  if (usage) {
+    recentUsage = [...recentUsage, usage].slice(-RUNTIME_STATS_WINDOW);
   }
+
+  options?.onFinish?.(
+    stopMatcher?.matched
+      ? { reason: "stop_sequence", stopSequence: stopMatcher.matched, usage }
+      : { reason: toFinishReason(engineReason, options?.signal), usage },
+  );
 }
 
 /**
@@ -171,14 +398,8 @@ export async function* generateStreamWithWebLLM(
  * @returns Complete generated text
  */
 export async function generateWithWebLLM(
-  input: string | Array<{ role: string; content: string }>,
-  options?: {
-    maxTokens?: number;
-    temperature?: number;
-    topP?: number;
-    frequencyPenalty?: number;
-    presencePenalty?: number;
-  },
+  input: string | EngineMessage[],
+  options?: WebLLMGenerationOptions,
 ): Promise<string> {
   const chunks: string[] = [];
 
@@ -189,6 +410,47 @@ export async function generateWithWebLLM(
   return chunks.join("");
 }
 
+/**
+ * The tools to hand the engine for a tool_choice. WebLLM has no
+ * tool_choice: with tools it always answers with calls, so "none" drops
+ * the tools and a named function narrows them to that one.
+ */
+export function resolveTools(tools?: ToolDefinition[], toolChoice?: ToolChoice): ToolDefinition[] | undefined {
+  if (!tools?.length || toolChoice === "none") return undefined;
+  if (typeof toolChoice === "object") {
+    return tools.filter((tool) => tool.function.name === toolChoice.function.name);
+  }
+  return tools;
+}
+
+/**
+ * Read tool calls out of function-calling output, a JSON list of
+ * `{ name, arguments }` objects
+ * @returns The calls with fresh IDs, or null when the output isn't a call list
+ */
+export function parseToolCalls(output: string): ToolCall[] | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    return null;
+  }
+
+  const calls = Array.isArray(parsed) ? parsed : [parsed];
+  if (calls.length === 0 || !calls.every(isToolCallOutput)) {
+    return null;
+  }
+
+  return calls.map((call) => ({
+    id: `call_${crypto.randomUUID().replace(/-/g, "")}`,
+    type: "function",
+    function: {
+      name: call.name,
+      arguments: typeof call.arguments === "string" ? call.arguments : JSON.stringify(call.arguments ?? {}),
+    },
+  }));
+}
+
 /**
  * Get current loaded model ID
  * @returns The currently loaded model ID or null if none loaded
@@ -197,6 +459,14 @@ export function getActiveModelId(): string | null {
   return activeEngineState?.modelId ?? null;
 }
 
+/**
+ * Get the loaded embedding model ID
+ * @returns The embedding model ID or null if none loaded
+ */
+export function getActiveEmbeddingModelId(): string | null {
+  return activeEmbeddingState?.modelId ?? null;
+}
+
 /**
  * Check if a model is currently loaded
  * @param modelId - Optional model ID to check (checks any model if not provided)
@@ -208,6 +478,19 @@ export function isModelLoaded(modelId?: string): boolean {
   return activeEngineState.modelId === modelId;
 }
 
+export function getWebLLMRuntimeStats(): WebLLMRuntimeStats {
+  const mean = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return {
+    generations: generationCount,
+    decode_tokens_per_second: mean(recentUsage.map((usage) => usage.decode_tokens_per_second)),
+    time_to_first_token_ms: mean(recentUsage.map((usage) => usage.time_to_first_token_ms)),
+    loading_model: loadingModelId,
+    errors: { ...engineErrors },
+  };
+}
+
 /**
  * Cleanup the active engine and worker
  * Call this when switching models or unmounting
@@ -216,24 +499,104 @@ export async function cleanupEngine(): Promise<void> {
   if (!activeEngineState) return;
 
   try {
-    // Cleanup engine if it has a cleanup method
-    if (typeof activeEngineState.engine?.unload === "function") {
-      await activeEngineState.engine.unload();
-    }
-
-    // Terminate worker
-    activeEngineState.worker.terminate();
-  } catch (error) {
-    console.error("Error cleaning up WebLLM engine:", error);
+    await disposeEngine(activeEngineState);
   } finally {
     activeEngineState = null;
   }
 }
 
+/**
+ * Cleanup the embedding engine and its worker
+ */
+export async function cleanupEmbeddingEngine(): Promise<void> {
+  if (!activeEmbeddingState) return;
+
+  try {
+    await disposeEngine(activeEmbeddingState);
+  } finally {
+    activeEmbeddingState = null;
+  }
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
+/**
+ * Start an engine for a model in a dedicated web worker
+ */
+async function createEngine(
+  modelId: string,
+  onProgress?: (progress: number) => void,
+): Promise<EngineState> {
+  const webllm = await getWebLLMModule();
+
+  // Create dedicated worker for inference
+  const worker = new Worker(
+    new URL("../../workers/inference.worker.ts", import.meta.url),
+    { type: "module" }
+  );
+
+  loadingModelId = modelId;
+  try {
+    // Initialize engine with progress tracking
+    const engine = await (webllm as any).CreateWebWorkerMLCEngine(
+      worker,
+      modelId,
+      {
+        initProgressCallback: (report: any) => {
+          const progress = normalizeProgress(report);
+          onProgress?.(progress);
+        },
+      }
+    );
+
+    return { modelId, engine, worker };
+  } catch (error) {
+    worker.terminate();
+    throw recordEngineError(error, error);
+  } finally {
+    loadingModelId = null;
+  }
+}
+
+/**
+ * Counts an engine failure for the runtime stats. Refused requests are the
+ * caller's doing and aren't counted.
+ * @returns The error, for rethrowing
+ */
+function recordEngineError<T>(error: T, cause: unknown): T {
+  if (error instanceof WebLLMRequestError) {
+    return error;
+  }
+
+  const description = cause instanceof Error ? `${cause.name}: ${cause.message}` : String(cause);
+  engineErrors.generation += 1;
+  if (/device (was |is )?lost|DeviceLost|context lost/i.test(description)) {
+    engineErrors.device_lost += 1;
+  } else if (/out of memory|OutOfMemory|\bOOM\b/i.test(description)) {
+    engineErrors.out_of_memory += 1;
+  }
+  return error;
+}
+
+/**
+ * Unload an engine and terminate its worker
+ */
+async function disposeEngine(state: EngineState): Promise<void> {
+  try {
+    // Cleanup engine if it has a cleanup method
+    if (typeof state.engine?.unload === "function") {
+      await state.engine.unload();
+    }
+
+    // Terminate worker
+    state.worker.terminate();
+  } catch (error) {
+    console.error("Error cleaning up WebLLM engine:", error);
+  }
+}
+
 /**
  * Normalize progress report to 0-100 range
  */
@@ -258,14 +621,140 @@ function extractPercentFromText(text: string): number {
 }
 
 /**
- * Normalize input to message array format
+ * Normalize input to message array format. WebLLM ignores tool_calls on
+ * history turns, so an assistant turn that made calls is replayed as the
+ * call list the model originally wrote.
+ */
+function normalizeInput(input: string | EngineMessage[]) {
+  if (!Array.isArray(input)) {
+    return [{ role: "user", content: input }];
+  }
+
+  return input.map((message) => {
+    if (message.role === "tool") {
+      return { role: "tool", content: message.content, tool_call_id: message.tool_call_id ?? "" };
+    }
+    if (message.role === "assistant" && message.tool_calls?.length) {
+      return { role: "assistant", content: message.content || serializeToolCalls(message.tool_calls) };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function serializeToolCalls(calls: ToolCall[]): string {
+  return JSON.stringify(calls.map((call) => ({
+    name: call.function.name,
+    arguments: parseArguments(call.function.arguments),
+  })));
+}
+
+function parseArguments(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function isToolCallOutput(value: unknown): value is { name: string; arguments?: unknown } {
+  return typeof value === "object" && value !== null && typeof (value as { name?: unknown }).name === "string";
+}
+
+/**
+ * Classify an engine error. Errors from the web worker arrive as
+ * "Name: message" strings rather than Error objects.
+ */
+function toGenerationError(error: unknown): Error {
+  const description = error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+  const separator = description.indexOf(":");
+  const name = separator > 0 ? description.slice(0, separator) : "";
+
+  if (REQUEST_ERROR_NAMES.has(name)) {
+    return new WebLLMRequestError(description.slice(separator + 1).trim());
+  }
+
+  const message = error instanceof Error ? error.message : description || "Unknown error";
+  return new Error(`Generation failed: ${message}`);
+}
+
+/**
+ * Map JSON options onto WebLLM's grammar-constrained response format.
+ * A schema implies JSON mode.
+ */
+function toResponseFormat(options?: WebLLMGenerationOptions) {
+  if (options?.jsonSchema) {
+    return { type: "json_object", schema: JSON.stringify(options.jsonSchema) };
+  }
+  return options?.jsonMode ? { type: "json_object" } : undefined;
+}
+
+/**
+ * Holds back streamed text that could be the start of a stop sequence, so
+ * no part of a matched sequence is ever emitted
+ */
+class StopSequenceMatcher {
+  matched: string | null = null;
+
+  private held = "";
+
+  constructor(private readonly stops: string[]) { }
+
+  /**
+   * @returns Text that is safe to emit
+   */
+  push(text: string): string {
+    this.held += text;
+
+    let end = -1;
+    for (const stop of this.stops) {
+      const index = this.held.indexOf(stop);
+      if (index !== -1 && (end === -1 || index < end)) {
+        end = index;
+        this.matched = stop;
+      }
+    }
+    if (end !== -1) {
+      return this.held.slice(0, end);
+    }
+
+    const keep = this.longestPartialMatch();
+    const safe = this.held.slice(0, this.held.length - keep);
+    this.held = this.held.slice(this.held.length - keep);
+    return safe;
+  }
+
+  /**
+   * @returns Text still held back once the stream has ended
+   */
+  flush(): string {
+    const rest = this.held;
+    this.held = "";
+    return rest;
+  }
+
+  // Length of the longest tail of the held text that starts a stop sequence
+  private longestPartialMatch(): number {
+    let longest = 0;
+    for (const stop of this.stops) {
+      for (let length = Math.min(stop.length - 1, this.held.length); length > longest; length--) {
+        if (this.held.endsWith(stop.slice(0, length))) {
+          longest = length;
+          break;
+        }
+      }
+    }
+    return longest;
+  }
+}
+
+/**
+ * Map the engine's finish reason onto ours. The engine reports an
+ * interrupted generation as "abort".
  */
-function normalizeInput(
-  input: string | Array<{ role: string; content: string }>
-): Array<{ role: string; content: string }> {
-  return Array.isArray(input)
-    ? input
-    : [{ role: "user", content: input }];
+function toFinishReason(engineReason: string | null, signal?: AbortSignal): WebLLMFinishReason {
+  if (signal?.aborted || engineReason === "abort") return "cancelled";
+  if (engineReason === "length" || engineReason === "tool_calls") return engineReason;
+  return "stop";
 }
 
 /**
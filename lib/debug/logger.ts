@@ -14,6 +14,8 @@ export interface LogEntry {
   stack?: string;
 }
 
+export type LogListener = (entry: LogEntry) => void;
+
 export class Logger {
   private readonly serviceName: string;
 
@@ -23,6 +25,8 @@ export class Logger {
 
   private readonly maxLogs = 1_000;
 
+  private readonly listeners = new Set<LogListener>();
+
   constructor(serviceName: string) {
     this.serviceName = serviceName;
   }
@@ -60,6 +64,17 @@ export class Logger {
     return [...this.logs];
   }
 
+  /**
+   * Calls the listener with every entry logged from now on
+   * @returns Function that stops the subscription
+   */
+  subscribe(listener: LogListener) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   private log(level: LogLevel, message: string, data?: unknown) {
     if (level < this.level) {
       return;
@@ -80,6 +95,10 @@ export class Logger {
       this.logs.splice(0, this.logs.length - this.maxLogs);
     }
 
+    for (const listener of Array.from(this.listeners)) {
+      listener(entry);
+    }
+
     if (process.env.NODE_ENV !== "production") {
       const label = `[${this.serviceName}]`;
       if (level === LogLevel.ERROR) {
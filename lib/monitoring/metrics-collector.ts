@@ -1,11 +1,11 @@
-interface Metric {
+export interface Metric {
   name: string;
   value: number;
   tags: Record<string, string>;
   timestamp: number;
 }
 
-type Aggregation = "avg" | "sum" | "max" | "min" | "count";
+export type Aggregation = "avg" | "sum" | "max" | "min" | "count" | "p50" | "p95" | "p99";
 
 export class MetricsCollector {
   private readonly serviceName: string;
@@ -45,8 +45,20 @@ export class MetricsCollector {
     return [...(this.metrics.get(`${this.serviceName}.${name}`) ?? [])];
   }
 
-  aggregate(name: string, aggregation: Aggregation): number {
-    const values = this.getMetrics(name).map((metric) => metric.value);
+  /**
+   * Names of everything recorded, without the service prefix
+   */
+  getNames() {
+    return Array.from(this.metrics.keys(), (fullName) => fullName.slice(this.serviceName.length + 1));
+  }
+
+  /**
+   * @param since - Only count values recorded at or after this time
+   */
+  aggregate(name: string, aggregation: Aggregation, since = 0): number {
+    const values = this.getMetrics(name)
+      .filter((metric) => metric.timestamp >= since)
+      .map((metric) => metric.value);
     if (values.length === 0) {
       return 0;
     }
@@ -67,6 +79,13 @@ export class MetricsCollector {
       return Math.max(...values);
     }
 
+    if (aggregation === "p50" || aggregation === "p95" || aggregation === "p99") {
+      // Nearest rank
+      const sorted = [...values].sort((a, b) => a - b);
+      const rank = Math.ceil((Number(aggregation.slice(1)) / 100) * sorted.length);
+      return sorted[Math.max(0, rank - 1)];
+    }
+
     return Math.min(...values);
   }
 }
\ No newline at end of file
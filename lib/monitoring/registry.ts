@@ -0,0 +1,134 @@
+import { Debugger, type Trace } from "@/lib/debug/debugger";
+import { Logger, type LogEntry, type LogLevel, type LogListener } from "@/lib/debug/logger";
+import { MetricsCollector } from "@/lib/monitoring/metrics-collector";
+
+export interface LogQuery {
+  // Entries at this level and above
+  level?: LogLevel;
+  service?: string;
+  since?: number;
+}
+
+export interface TraceQuery {
+  service?: string;
+  operation?: string;
+  since?: number;
+}
+
+export function matchesLogQuery(entry: LogEntry, query: LogQuery) {
+  return (query.level === undefined || entry.level >= query.level)
+    && (query.service === undefined || entry.service === query.service)
+    && (query.since === undefined || entry.timestamp >= query.since);
+}
+
+/**
+ * When a trace started, as a Unix timestamp. Traces are timed with
+ * performance.now(), which counts from the process start.
+ */
+export function getTraceStartedAt(trace: Trace) {
+  return Math.round(performance.timeOrigin + trace.startTime);
+}
+
+/**
+ * One logger, debugger and metrics collector per service name, shared by
+ * everything that asks for that name, so the debug routes can read them all
+ */
+export class InstrumentationRegistry {
+  private readonly loggers = new Map<string, Logger>();
+
+  private readonly debuggers = new Map<string, Debugger>();
+
+  private readonly collectors = new Map<string, MetricsCollector>();
+
+  private readonly logListeners = new Set<LogListener>();
+
+  getLogger(service: string): Logger {
+    let logger = this.loggers.get(service);
+    if (!logger) {
+      logger = new Logger(service);
+      logger.subscribe((entry) => {
+        for (const listener of Array.from(this.logListeners)) {
+          listener(entry);
+        }
+      });
+      this.loggers.set(service, logger);
+    }
+    return logger;
+  }
+
+  getDebugger(service: string): Debugger {
+    let instance = this.debuggers.get(service);
+    if (!instance) {
+      instance = new Debugger(service);
+      this.debuggers.set(service, instance);
+    }
+    return instance;
+  }
+
+  getMetrics(service: string): MetricsCollector {
+    let collector = this.collectors.get(service);
+    if (!collector) {
+      collector = new MetricsCollector(service);
+      this.collectors.set(service, collector);
+    }
+    return collector;
+  }
+
+  /**
+   * Matching entries from every logger, oldest first
+   * @param limit - Keep only the most recent this many
+   */
+  queryLogs(query: LogQuery, limit: number): LogEntry[] {
+    return Array.from(this.loggers.values())
+      .flatMap((logger) => logger.getLogs())
+      .filter((entry) => matchesLogQuery(entry, query))
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-limit);
+  }
+
+  /**
+   * Matching completed traces from every debugger, oldest first
+   * @param limit - Keep only the most recent this many
+   */
+  queryTraces(query: TraceQuery, limit: number): Trace[] {
+    return Array.from(this.debuggers.values())
+      .flatMap((instance) => instance.getTraces())
+      .filter((trace) =>
+        (query.service === undefined || trace.service === query.service)
+        && (query.operation === undefined || trace.operation === query.operation)
+        && (query.since === undefined || getTraceStartedAt(trace) >= query.since))
+      .sort((a, b) => a.startTime - b.startTime)
+      .slice(-limit);
+  }
+
+  countActiveTraces(service?: string) {
+    return Array.from(this.debuggers.entries())
+      .filter(([name]) => service === undefined || name === service)
+      .reduce((sum, [, instance]) => sum + instance.getActiveTraces().length, 0);
+  }
+
+  /**
+   * Metrics collectors by service name
+   */
+  getCollectors(service?: string): Array<[string, MetricsCollector]> {
+    return Array.from(this.collectors.entries()).filter(([name]) => service === undefined || name === service);
+  }
+
+  /**
+   * Calls the listener with every entry any logger writes from now on
+   * @returns Function that stops the subscription
+   */
+  subscribeLogs(listener: LogListener) {
+    this.logListeners.add(listener);
+    return () => {
+      this.logListeners.delete(listener);
+    };
+  }
+}
+
+// Global singleton for Next.js dev server hot reload persistence
+const globalForInstrumentation = globalThis as unknown as { instrumentation: InstrumentationRegistry };
+
+export const instrumentation = globalForInstrumentation.instrumentation || new InstrumentationRegistry();
+
+if (process.env.NODE_ENV !== "production") globalForInstrumentation.instrumentation = instrumentation;
@@ -1,6 +1,7 @@
-import { Debugger } from "@/lib/debug/debugger";
-import { Logger } from "@/lib/debug/logger";
-import { MetricsCollector } from "@/lib/monitoring/metrics-collector";
+import type { Debugger } from "@/lib/debug/debugger";
+import type { Logger } from "@/lib/debug/logger";
+import type { MetricsCollector } from "@/lib/monitoring/metrics-collector";
+import { instrumentation } from "@/lib/monitoring/registry";
 
 export abstract class BaseService {
   protected readonly logger: Logger;
@@ -12,9 +13,9 @@ export abstract class BaseService {
   protected initialized = false;
 
   protected constructor(serviceName: string) {
-    this.logger = new Logger(serviceName);
-    this.debugger = new Debugger(serviceName);
-    this.metrics = new MetricsCollector(serviceName);
+    this.logger = instrumentation.getLogger(serviceName);
+    this.debugger = instrumentation.getDebugger(serviceName);
+    this.metrics = instrumentation.getMetrics(serviceName);
   }
 
   abstract initialize(): Promise<void>;
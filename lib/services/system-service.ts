@@ -1,31 +1,91 @@
-import type { StatusResponse } from "@/types/api";
+import type { StatusResponse, WorkerStatus, WorkerTelemetry } from "@/types/api";
+import { jobQueue, type WorkerSnapshot } from "@/lib/api/queue";
 
 export class SystemService {
-  getStatus(): StatusResponse {
+  /**
+   * Status of the worker pool, from the telemetry workers send with their
+   * heartbeats and the requests the queue has counted. Device figures come
+   * from the worker serving a model, or else the first one to report.
+   * Worker IDs and raw telemetry are left out unless `includeWorkerDetails`.
+   */
+  getStatus(includeWorkerDetails = false): StatusResponse {
+    const snapshot = jobQueue.getSnapshot();
+    const healthy = snapshot.workers.filter((worker) => worker.healthy);
+    const reports = healthy.flatMap((worker) => (worker.telemetry ? [worker.telemetry] : []));
+
+    const serving = healthy.find((worker) => getServedModel(worker));
+    const servedModel = serving ? getServedModel(serving) : null;
+    const loadingModel = reports.find((report) => report.runtime.loading_model)?.runtime.loading_model ?? null;
+    const device = serving?.telemetry?.compatibility ?? reports[0]?.compatibility;
+
+    const requests = jobQueue.getRequestStats();
+    const finished = requests.succeeded + requests.failed + requests.expired;
+    const speeds = reports.flatMap((report) => report.runtime.decode_tokens_per_second ?? []);
+    const countErrors = (kind: keyof WorkerTelemetry["runtime"]["errors"]) =>
+      reports.reduce((sum, report) => sum + report.runtime.errors[kind], 0);
+
     return {
-      status: "idle",
-      model: null,
+      status: servedModel
+        ? "ready"
+        : loadingModel
+          ? "loading"
+          : reports.length > 0 && reports.every((report) => !report.compatibility.webgpu_available)
+            ? "error"
+            : "idle",
+      model: servedModel
+        ? { id: servedModel, loaded: true }
+        : loadingModel
+          ? { id: loadingModel, loaded: false }
+          : null,
       system: {
-        webgpu_available: typeof navigator !== "undefined" && "gpu" in navigator,
-        ram_gb: 0,
-        gpu_vram_gb: 0,
-        storage_quota_gb: 0,
-        storage_used_gb: 0,
+        webgpu_available: reports.some((report) => report.compatibility.webgpu_available),
+        ram_gb: device?.device_memory_gb ?? 0,
+        gpu_vram_gb: device?.estimated_vram_gb ?? 0,
+        storage_quota_gb: device?.storage_quota_gb ?? 0,
+        storage_used_gb: device?.storage_used_gb ?? 0,
       },
       performance: {
-        avg_tokens_per_second: 0,
-        avg_latency_ms: 0,
-        requests_total: 0,
-        requests_success: 0,
-        requests_error: 0,
+        avg_tokens_per_second: speeds.length > 0
+          ? round(speeds.reduce((sum, speed) => sum + speed, 0) / speeds.length)
+          : 0,
+        avg_latency_ms: Math.round(requests.avgLatencyMs ?? 0),
+        requests_total: requests.total,
+        requests_success: requests.succeeded,
+        requests_error: requests.failed + requests.expired,
       },
       health: {
-        webgpu_context_losses: 0,
-        memory_errors: 0,
-        stability_score: 100,
+        webgpu_context_losses: countErrors("device_lost"),
+        memory_errors: countErrors("out_of_memory"),
+        // Share of finished jobs that succeeded; cancelled ones don't count
+        stability_score: finished === 0 ? 100 : Math.round((requests.succeeded / finished) * 100),
       },
+      queue: {
+        depth: snapshot.depth,
+        running: snapshot.running,
+      },
+      workers: snapshot.workers.map((worker) => toWorkerStatus(worker, includeWorkerDetails)),
     };
   }
 }
 
-export const systemService = new SystemService();
\ No newline at end of file
+// What the worker last reported loading, or what the queue last sent it
+function getServedModel(worker: WorkerSnapshot): string | null {
+  return worker.telemetry ? worker.telemetry.model : worker.model;
+}
+
+function toWorkerStatus(worker: WorkerSnapshot, includeDetails: boolean): WorkerStatus {
+  return {
+    ...(includeDetails ? { id: worker.id } : {}),
+    healthy: worker.healthy,
+    active_jobs: worker.activeJobs,
+    capacity: worker.capacity,
+    last_heartbeat: worker.lastHeartbeat,
+    ...(includeDetails ? { telemetry: worker.telemetry } : {}),
+  };
+}
+
+function round(value: number) {
+  return Math.round(value * 10) / 10;
+}
+
+export const systemService = new SystemService();
@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { API_KEY_ID_HEADER, authenticate, authErrorResponse, getRequiredScope, rejectionResponse } from "@/lib/api/auth";
+import { getClientIp } from "@/lib/api/client";
+import { checkRateLimit, getRateLimitClass, rateLimitHeaders } from "@/lib/api/rate-limit";
+
+/**
+ * Requires an API key with the right scope on every API route, then
+ * charges the request to its key's and IP's rate limits. CORS preflights
+ * pass through, since browsers send them without credentials.
+ */
+export function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const scope = getRequiredScope(pathname);
+  if (!scope || request.method === "OPTIONS") {
+    return NextResponse.next();
+  }
+
+  const result = authenticate(request, scope);
+  if (!result.ok) {
+    return authErrorResponse(pathname, result);
+  }
+
+  const limitClass = getRateLimitClass(request.method, pathname);
+  const limit = limitClass ? checkRateLimit(limitClass, result.key, getClientIp(request)) : null;
+  if (limit && !limit.allowed) {
+    return rejectionResponse(
+      pathname,
+      { status: 429, code: "RATE_LIMIT", message: "Rate limit exceeded, retry after the time in Retry-After" },
+      rateLimitHeaders(limit),
+    );
+  }
+
+  // Callers can't claim a key by sending the header themselves
+  const headers = new Headers(request.headers);
+  headers.delete(API_KEY_ID_HEADER);
+  if (result.key) {
+    headers.set(API_KEY_ID_HEADER, result.key.id);
+  }
+
+  const response = NextResponse.next({ request: { headers } });
+  if (limit) {
+    for (const [name, value] of Object.entries(rateLimitHeaders(limit))) {
+      response.headers.set(name, value);
+    }
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/api/:path*", "/v1/:path*"],
+  // Keys are checked against the key store on disk
+  runtime: "nodejs",
+};
@@ -1,66 +1,97 @@
-export interface APIError {
-  code: string;
-  message: string;
-  details?: unknown;
-}
-
-export interface APIResponse<T> {
-  success: boolean;
-  data?: T;
-  error?: APIError;
-  metadata: {
-    requestId: string;
-    timestamp: number;
-    version: string;
-  };
-}
-
-export interface ModelInfo {
-  id: string;
-  name: string;
-  size: string;
-  vram_required: string;
-  downloaded: boolean;
-  speed_tier: "fast" | "medium" | "slow";
-  quality_tier: "excellent" | "good" | "basic";
-  capabilities: string[];
-  source?: {
-    provider: "webllm";
-    model_uri: string;
-    tokenizer_uri?: string;
-    checksum_sha256?: string;
-  };
-}
-
-export interface ModelSuggestion {
-  id: string;
-  name: string;
-  reason: string;
-}
-
-export interface StatusResponse {
-  status: "ready" | "loading" | "error" | "idle";
-  model: {
-    id: string;
-    loaded: boolean;
-  } | null;
-  system: {
-    webgpu_available: boolean;
-    ram_gb: number;
-    gpu_vram_gb: number;
-    storage_quota_gb: number;
-    storage_used_gb: number;
-  };
-  performance: {
-    avg_tokens_per_second: number;
-    avg_latency_ms: number;
-    requests_total: number;
-    requests_success: number;
-    requests_error: number;
-  };
-  health: {
-    webgpu_context_losses: number;
-    memory_errors: number;
-    stability_score: number;
-  };
-}
+import type { z } from "zod";
+import type {
+  apiErrorSchema,
+  apiKeyResponseSchema,
+  apiResponseSchema,
+  debugLogEntrySchema,
+  debugLogsResponseSchema,
+  debugTraceSchema,
+  debugTracesResponseSchema,
+  embeddingResponseSchema,
+  generateResponseSchema,
+  jobResponseSchema,
+  jsonOutputCheckSchema,
+  modelDetailsResponseSchema,
+  modelInfoSchema,
+  modelOperationResponseSchema,
+  modelSuggestionSchema,
+  modelWorkerStateSchema,
+  profileMetricSchema,
+  profileResponseSchema,
+  statusResponseSchema,
+  usageResponseSchema,
+  workerStatusSchema,
+} from "@/lib/api/response-schemas";
+import type {
+  debugLogLevelSchema,
+  jobPrioritySchema,
+  jobStatusSchema,
+  modelActionSchema,
+  toolCallSchema,
+  toolChoiceSchema,
+  toolSchema,
+  workerTelemetrySchema,
+} from "@/lib/api/schemas";
+
+// Shapes the API sends and receives, inferred from the zod schemas in
+// lib/api so the types, the validation and the OpenAPI document agree
+
+export type APIError = z.infer<typeof apiErrorSchema>;
+
+// The envelope's payload schema is a parameter, so T is filled in here
+export type APIResponse<T> = Omit<z.infer<ReturnType<typeof apiResponseSchema>>, "data"> & { data?: T };
+
+export type GenerateResponse = z.infer<typeof generateResponseSchema>;
+
+export type EmbeddingResponse = z.infer<typeof embeddingResponseSchema>;
+
+export type ApiKeyResponse = z.infer<typeof apiKeyResponseSchema>;
+
+export type UsageResponse = z.infer<typeof usageResponseSchema>;
+
+export type ToolDefinition = z.infer<typeof toolSchema>;
+
+export type ToolChoice = z.infer<typeof toolChoiceSchema>;
+
+export type ToolCall = z.infer<typeof toolCallSchema>;
+
+export type JsonOutputCheck = z.infer<typeof jsonOutputCheckSchema>;
+
+export type JobPriority = z.infer<typeof jobPrioritySchema>;
+
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+
+export type JobResponse = z.infer<typeof jobResponseSchema>;
+
+export type ModelInfo = z.infer<typeof modelInfoSchema>;
+
+export type ModelWorkerState = z.infer<typeof modelWorkerStateSchema>;
+
+export type ModelDetailsResponse = z.infer<typeof modelDetailsResponseSchema>;
+
+export type ModelAction = z.infer<typeof modelActionSchema>;
+
+export type ModelOperationResponse = z.infer<typeof modelOperationResponseSchema>;
+
+export type ModelSuggestion = z.infer<typeof modelSuggestionSchema>;
+
+// What a browser worker reports about itself with each heartbeat
+export type WorkerTelemetry = z.infer<typeof workerTelemetrySchema>;
+
+export type WorkerStatus = z.infer<typeof workerStatusSchema>;
+
+export type StatusResponse = z.infer<typeof statusResponseSchema>;
+
+export type DebugLogLevel = z.infer<typeof debugLogLevelSchema>;
+
+export type DebugLogEntry = z.infer<typeof debugLogEntrySchema>;
+
+export type DebugLogsResponse = z.infer<typeof debugLogsResponseSchema>;
+
+export type DebugTrace = z.infer<typeof debugTraceSchema>;
+
+export type DebugTracesResponse = z.infer<typeof debugTracesResponseSchema>;
+
+export type ProfileMetric = z.infer<typeof profileMetricSchema>;
+
+export type ProfileResponse = z.infer<typeof profileResponseSchema>;
@@ -0,0 +1,13 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll } from "vitest";
+
+// The key and usage stores are created on import; keep them out of .data
+const dir = mkdtempSync(path.join(tmpdir(), "tattvamente-test-"));
+process.env.API_KEYS_PATH = path.join(dir, "api-keys.json");
+process.env.API_USAGE_PATH = path.join(dir, "usage.json");
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});